@@ -0,0 +1,83 @@
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { extractArticle } from "../src/lib/references/readability";
+
+/**
+ * Runs the web page extractor over `fixtures/readability/*.html` and checks
+ * each result against the sibling `.json`: exact `title` / `author` /
+ * `published_at` when listed, text that must appear in the extracted body
+ * (headings as `#`, list items as `-`) and text that must not.
+ *
+ *   npm run check:readability
+ */
+
+type Expectation = {
+  title?: string;
+  author?: string;
+  published_at?: string;
+  includes: string[];
+  excludes: string[];
+};
+
+const FIXTURE_DIR = path.join(__dirname, "..", "fixtures", "readability");
+const METADATA_KEYS = ["title", "author", "published_at"] as const;
+
+const checkFixture = async (name: string) => {
+  const html = await readFile(path.join(FIXTURE_DIR, `${name}.html`), "utf8");
+  const expected = JSON.parse(
+    await readFile(path.join(FIXTURE_DIR, `${name}.json`), "utf8"),
+  ) as Expectation;
+  const article = extractArticle(html);
+  const failures: string[] = [];
+  METADATA_KEYS.forEach((key) => {
+    if (expected[key] !== undefined && article[key] !== expected[key]) {
+      failures.push(`${key}: expected ${JSON.stringify(expected[key])}, got ${JSON.stringify(article[key])}`);
+    }
+  });
+  const blocks = article.text.split("\n\n");
+  expected.includes.forEach((snippet) => {
+    // Headings and list items must be blocks of their own, not just substrings.
+    const found = /^(#+|-) /.test(snippet)
+      ? blocks.some((block) => block.startsWith(snippet))
+      : article.text.includes(snippet);
+    if (!found) {
+      failures.push(`missing: ${snippet}`);
+    }
+  });
+  expected.excludes.forEach((snippet) => {
+    if (article.text.includes(snippet)) {
+      failures.push(`unexpected: ${snippet}`);
+    }
+  });
+  return { article, failures };
+};
+
+const main = async () => {
+  const names = (await readdir(FIXTURE_DIR))
+    .filter((file) => file.endsWith(".html"))
+    .map((file) => file.slice(0, -".html".length))
+    .sort();
+  let failed = 0;
+  for (const name of names) {
+    const { article, failures } = await checkFixture(name);
+    if (!failures.length) {
+      console.log(`ok    ${name} (${article.text.length} chars)`);
+      continue;
+    }
+    failed += 1;
+    console.log(`FAIL  ${name}`);
+    failures.forEach((failure) => console.log(`      ${failure}`));
+    if (process.argv.includes("--verbose")) {
+      console.log(`\n${article.text}\n`);
+    }
+  }
+  console.log(`\n${names.length - failed}/${names.length} fixtures passed`);
+  if (failed) {
+    process.exitCode = 1;
+  }
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,193 @@
+import { NextResponse } from "next/server";
+import type { LlmProvider } from "../../../../lib/llm";
+import {
+  BatchItemOutcome,
+  buildGenerationInput,
+  GenerationRequestBody,
+  GenerationResult,
+  readBatchConfig,
+  runBatch,
+  runTracedGeneration,
+  toErrorBody,
+} from "../../../../lib/generation";
+import {
+  createProviderOrResponse,
+  openEventStream,
+  rateLimitStatus,
+  readRequestId,
+  rejectRateLimited,
+  wantsEventStream,
+} from "../../../../lib/generation/http";
+import {
+  buildRateLimitHeaders,
+  describeRateLimitRejection,
+  getRateLimiter,
+} from "../../../../lib/rateLimit";
+
+export const runtime = "nodejs";
+
+type BatchItem = string | Omit<GenerationRequestBody, "stream">;
+
+type BatchRequestBody = {
+  items?: BatchItem[];
+  concurrency?: number;
+  force?: boolean;
+  stream?: boolean;
+};
+
+type BatchOutcome = BatchItemOutcome<GenerationResult>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const summarize = (outcomes: BatchOutcome[], total: number) => {
+  const succeeded = outcomes.filter((outcome) => outcome.ok).length;
+  return {
+    total,
+    succeeded,
+    failed: outcomes.length - succeeded,
+    skipped: total - outcomes.length,
+  };
+};
+
+/**
+ * Every item is charged against the caller's rate limit separately, right
+ * before it starts, so a batch cannot bypass the per-request quota; items
+ * that are refused report a 429 and the rest of the batch carries on.
+ */
+const createItemWorker =
+  (
+    provider: LlmProvider,
+    request: Request,
+    body: BatchRequestBody,
+    requestId: string,
+    signal: AbortSignal,
+  ) =>
+  async (item: BatchItem, index: number): Promise<BatchOutcome> => {
+    const itemBody: GenerationRequestBody =
+      typeof item === "string" ? { prompt: item } : { ...item };
+    try {
+      const input = buildGenerationInput(
+        { ...itemBody, force: itemBody.force ?? body.force },
+        { requestId: `${requestId}:${index}`, signal },
+      );
+      const limiter = getRateLimiter();
+      if (limiter) {
+        const decision = await limiter.check(request);
+        if (!decision.allowed) {
+          return {
+            index,
+            ok: false,
+            status: rateLimitStatus(decision),
+            error: {
+              error: describeRateLimitRejection(decision),
+              code: "rate_limited",
+              retry_after: decision.retryAfterSeconds,
+            },
+          };
+        }
+      }
+      const result = await runTracedGeneration(provider, input);
+      return { index, ok: true, result };
+    } catch (error) {
+      const { status, body: errorBody } = toErrorBody(error);
+      return { index, ok: false, status, error: errorBody };
+    }
+  };
+
+const streamBatch = (
+  items: BatchItem[],
+  concurrency: number,
+  buildWorker: (signal: AbortSignal) => ReturnType<typeof createItemWorker>,
+  parentSignal: AbortSignal,
+  extraHeaders: Record<string, string>,
+) =>
+  openEventStream(parentSignal, extraHeaders, async (send, signal) => {
+    send("accepted", { total: items.length, concurrency });
+    const outcomes = await runBatch({
+      items,
+      concurrency,
+      signal,
+      worker: buildWorker(signal),
+      onSettled: (outcome) => send("item", outcome),
+    });
+    send("done", summarize(outcomes, items.length));
+  });
+
+export async function POST(request: Request) {
+  const provider = createProviderOrResponse();
+  if (provider instanceof Response) {
+    return provider;
+  }
+
+  // Rate limiting comes first so a rejected client's body is never read.
+  const requestId = readRequestId(request);
+  const headers: Record<string, string> = { "X-Request-Id": requestId };
+  const limiter = getRateLimiter();
+  if (limiter) {
+    const decision = await limiter.peek(request);
+    Object.assign(headers, buildRateLimitHeaders(decision));
+    if (!decision.allowed) {
+      return rejectRateLimited(decision, headers);
+    }
+  }
+
+  let body: BatchRequestBody;
+  try {
+    const parsed: unknown = await request.json();
+    if (!isRecord(parsed)) {
+      return NextResponse.json(
+        { error: "请求体必须是 JSON 对象。", code: "invalid_request" },
+        { status: 400, headers },
+      );
+    }
+    body = parsed as BatchRequestBody;
+  } catch {
+    return NextResponse.json(
+      { error: "请求体格式错误。", code: "invalid_request" },
+      { status: 400, headers },
+    );
+  }
+
+  const config = readBatchConfig();
+  const items = Array.isArray(body.items) ? body.items : [];
+  if (!items.length) {
+    return NextResponse.json(
+      { error: "请提供至少一条待生成的描述（items）。" },
+      { status: 400, headers },
+    );
+  }
+  if (items.length > config.maxItems) {
+    return NextResponse.json(
+      { error: `单次最多提交 ${config.maxItems} 条，当前 ${items.length} 条。` },
+      { status: 400, headers },
+    );
+  }
+
+  const requested = Number(body.concurrency);
+  const concurrency =
+    Number.isInteger(requested) && requested > 0
+      ? Math.min(requested, config.concurrency)
+      : config.concurrency;
+  const buildWorker = (signal: AbortSignal) =>
+    createItemWorker(provider, request, body, requestId, signal);
+
+  if (wantsEventStream(request, body)) {
+    return streamBatch(items, concurrency, buildWorker, request.signal, headers);
+  }
+
+  const outcomes = await runBatch({
+    items,
+    concurrency,
+    signal: request.signal,
+    worker: buildWorker(request.signal),
+  });
+  return NextResponse.json(
+    {
+      request_id: requestId,
+      summary: summarize(outcomes, items.length),
+      items: outcomes,
+    },
+    { headers },
+  );
+}
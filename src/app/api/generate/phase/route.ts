@@ -0,0 +1,15 @@
+import { buildPhaseInput, PhaseRequestBody } from "../../../../lib/generation";
+import { handleGenerationRequest } from "../../../../lib/generation/http";
+
+export const runtime = "nodejs";
+
+/**
+ * Works on one phase of an existing chart. Body: `current`, `phaseIndex`,
+ * `series` (`primary` or an index into `current.series`) and `mode`:
+ * `regenerate` returns the same chart with only that phase redone,
+ * `drilldown` returns a new chart of 5-10 sub-phases inside the phase's time
+ * span.
+ */
+export async function POST(request: Request) {
+  return handleGenerationRequest<PhaseRequestBody>(request, buildPhaseInput);
+}
@@ -0,0 +1,16 @@
+import {
+  buildRefinementInput,
+  RefinementRequestBody,
+} from "../../../../lib/generation";
+import { handleGenerationRequest } from "../../../../lib/generation/http";
+
+export const runtime = "nodejs";
+
+/**
+ * Revises an existing chart from a follow-up instruction. Accepts the same
+ * options as `/api/generate` (references, `stream`, `locale`, `promptVersion`)
+ * plus `current` and `instruction`.
+ */
+export async function POST(request: Request) {
+  return handleGenerationRequest<RefinementRequestBody>(request, buildRefinementInput);
+}
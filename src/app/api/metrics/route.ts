@@ -0,0 +1,25 @@
+import { getMetricsRegistry } from "../../../lib/telemetry";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const isAuthorized = (request: Request) => {
+  const token = process.env.METRICS_TOKEN?.trim();
+  if (!token) {
+    return true;
+  }
+  const authorization = request.headers.get("authorization") ?? "";
+  return authorization.replace(/^Bearer\s+/i, "").trim() === token;
+};
+
+export async function GET(request: Request) {
+  if (!isAuthorized(request)) {
+    return new Response("Unauthorized\n", { status: 401 });
+  }
+  return new Response(getMetricsRegistry().render(), {
+    headers: {
+      "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
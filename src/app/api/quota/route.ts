@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import {
+  buildRateLimitHeaders,
+  describeRateLimitRejection,
+  getRateLimiter,
+} from "../../../lib/rateLimit";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const limiter = getRateLimiter();
+  if (!limiter) {
+    return NextResponse.json({ enabled: false });
+  }
+  const decision = await limiter.peek(request);
+  if (decision.reason === "invalid_key") {
+    return NextResponse.json(
+      { error: describeRateLimitRejection(decision) },
+      { status: 401 },
+    );
+  }
+  return NextResponse.json(
+    { enabled: true, quota: decision.quota },
+    { headers: buildRateLimitHeaders(decision) },
+  );
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { readStageTimeouts, RequestAbortedError } from "../../../../lib/deadline";
+import { MAX_DOCUMENTS, MAX_LINKS } from "../../../../lib/generation";
+import { rejectRateLimited } from "../../../../lib/generation/http";
+import { readRequestBody, UploadError } from "../../../../lib/multipart";
+import { buildRateLimitHeaders, getRateLimiter } from "../../../../lib/rateLimit";
+import { previewReferences, UploadedDocument } from "../../../../lib/references";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type PreviewRequestBody = {
+  supplementalText?: string;
+  links?: string[];
+  documents?: UploadedDocument[];
+};
+
+/**
+ * Reads links and files the way `/api/generate` would and reports on each
+ * one, so problems show up before a generation is spent. It does not use
+ * daily quota, but every call takes a burst token (links are fetched on the
+ * server) and an invalid API key is still rejected.
+ */
+export async function POST(request: Request) {
+  const limiter = getRateLimiter();
+  if (limiter) {
+    const decision = await limiter.throttle(request);
+    if (!decision.allowed) {
+      return rejectRateLimited(decision, buildRateLimitHeaders(decision));
+    }
+  }
+
+  let body: PreviewRequestBody;
+  try {
+    body = await readRequestBody<PreviewRequestBody>(request);
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json({ error: "请求体格式错误。" }, { status: 400 });
+  }
+
+  try {
+    const items = await previewReferences({
+      supplementalText:
+        typeof body.supplementalText === "string" ? body.supplementalText : undefined,
+      links: Array.isArray(body.links)
+        ? body.links
+            .filter((link) => typeof link === "string")
+            .map((link) => link.trim())
+            .filter(Boolean)
+            .slice(0, MAX_LINKS)
+        : [],
+      documents: Array.isArray(body.documents)
+        ? body.documents.slice(0, MAX_DOCUMENTS)
+        : [],
+      signal: request.signal,
+      timeouts: readStageTimeouts(),
+    });
+    return NextResponse.json({ items });
+  } catch (error) {
+    if (error instanceof RequestAbortedError) {
+      return NextResponse.json(
+        { error: "请求已取消。", code: "aborted" },
+        { status: 499 },
+      );
+    }
+    console.error("Reference preview failed", error);
+    return NextResponse.json({ error: "资料预检失败，请稍后重试。" }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@
 import {
   FormEvent,
   forwardRef,
+  Fragment,
   useCallback,
   useEffect,
   useImperativeHandle,
@@ -24,11 +25,22 @@ import type {
   UTCTimestamp,
 } from "lightweight-charts";
 import html2canvas from "html2canvas";
+import {
+  DEFAULT_LOCALE,
+  getMessages,
+  Locale,
+  matchLocale,
+  Messages,
+} from "@/lib/i18n";
+import { createSseParser } from "@/lib/streaming/sse";
+import { normalizeImpact, normalizeZone, TrendZone } from "@/lib/trend/enums";
 
 type TrendEvent = {
   time: string;
   description: string;
   impact: string;
+  /** `【参考N】` numbers, i.e. `reference_entries[N - 1]`. */
+  source_refs?: number[];
 };
 
 type Phase = {
@@ -41,7 +53,8 @@ type Phase = {
   label: string;
   key_events?: TrendEvent[];
   relation_note?: string;
-  zone?: "现实区间" | "推演区间";
+  /** `reality` / `projection`; older cached results may still carry the Chinese label. */
+  zone?: string;
 };
 
 type AxisMeta = {
@@ -59,23 +72,54 @@ type TrendSeries = {
   axis?: AxisMeta;
 };
 
+type SeriesRankEntry = {
+  line: number;
+  subject: string;
+  final_close: number;
+  final_score: number;
+  rank: number;
+};
+
 type ReferenceEntryMeta = {
   type: string;
   source: string;
   preview?: string;
+  title?: string;
+  published_at?: string;
+  author?: string;
+  chunks?: { index: number; score: number }[];
+  total_chunks?: number;
+};
+
+/** One item of `/api/references/preview`. */
+type ReferencePreviewItem = {
+  status: "ok" | "error";
+  error?: string;
+  chars?: number;
+  truncated?: boolean;
+  language?: keyof Messages["evidence"]["languages"];
+  excerpt?: string;
 };
 
+type ReferenceCheck =
+  | { state: "checking" }
+  | { state: "done"; item: ReferencePreviewItem };
+
 type TrendResponse = {
   subject: string;
   metric: string;
   timeframe: string;
   phases: Phase[];
+  series?: TrendSeries[];
+  /** Legacy single comparison line, read as `series: [secondary]`. */
   secondary?: TrendSeries;
+  series_ranking?: SeriesRankEntry[];
   relation_summary?: string;
   events?: TrendEvent[];
   analysis?: string;
   overall_analysis?: string;
   data_cutoff?: string;
+  data_cutoff_date?: string | null;
   source_digest?: string;
   prediction_commentary?: string;
   chart_notes?: {
@@ -92,16 +136,35 @@ type TrendResponse = {
   reference_status?: "empty" | "success" | "partial" | "failed";
   reference_entries?: ReferenceEntryMeta[];
   reference_errors?: string[];
+  consistency_warnings?: { path: string; message: string }[];
+  generation_meta?: {
+    request_id?: string;
+    prompt_version?: string;
+    locale?: Locale;
+    provider?: string;
+    model?: string;
+    repairs?: number;
+    swapped_series?: boolean;
+    relabelled_zones?: string[];
+    cache_hit?: boolean;
+    cached_at?: string;
+    query?: string;
+    revision?: number;
+    refined_from?: string;
+    instruction?: string;
+    regenerated_phase?: string;
+    drilldown_of?: { request_id?: string; phase: string; label: string };
+    dataset?: { name: string; points: number; segments: number };
+  };
+};
+
+/** Undo/redo stack of revisions; a fresh generation starts a new one. */
+type RevisionHistory = {
+  entries: TrendResponse[];
+  index: number;
 };
 
-const placeholderSamples = [
-  "Blackpink 的名气走势",
-  "泰勒斯威夫特的人气变化",
-  "二战各国的表现走势",
-  "比尔盖茨的财富积累变化",
-  "AI 创业热度的叙事起伏",
-  "巴黎奥运关注度的高潮与回落",
-];
+const LOCALE_STORAGE_KEY = "kline-locale";
 
 const sampleResponse: TrendResponse = {
   subject: "Blackpink",
@@ -120,17 +183,17 @@ const sampleResponse: TrendResponse = {
       close: 35,
       label: "出道惊艳期：首支单曲引爆东亚话题",
       relation_note: "组合起势，YG 的资源逐渐集中",
-      zone: "现实区间",
+      zone: "reality",
       key_events: [
         {
           time: "2016-08",
           description: "首支单曲上线即冲上韩国榜单高位",
-          impact: "推动",
+          impact: "push",
         },
         {
           time: "2016-11",
           description: "舞台表现连续刷屏社交媒体",
-          impact: "推动",
+          impact: "push",
         },
       ],
     },
@@ -143,17 +206,17 @@ const sampleResponse: TrendResponse = {
       close: 62,
       label: "国际舞台扩张：Coachella 与巡演打开全球",
       relation_note: "组合国际曝光激增，经纪公司估值同步抬升",
-      zone: "现实区间",
+      zone: "reality",
       key_events: [
         {
           time: "2018-06",
           description: "《DDU-DU DDU-DU》MV 刷新韩团记录",
-          impact: "推动",
+          impact: "push",
         },
         {
           time: "2019-04",
           description: "Coachella 演出点燃欧美受众",
-          impact: "推动",
+          impact: "push",
         },
       ],
     },
@@ -166,17 +229,17 @@ const sampleResponse: TrendResponse = {
       close: 82,
       label: "爆款期：全员单曲 + 线上内容持续刷屏",
       relation_note: "粉丝资本投入拉动 YG 股价的高波动",
-      zone: "现实区间",
+      zone: "reality",
       key_events: [
         {
           time: "2020-06",
           description: "《How You Like That》带来爆炸式流量",
-          impact: "推动",
+          impact: "push",
         },
         {
           time: "2021-10",
           description: "纪录片与真人秀保持曝光",
-          impact: "推动",
+          impact: "push",
         },
       ],
     },
@@ -189,17 +252,18 @@ const sampleResponse: TrendResponse = {
       close: 88,
       label: "巅峰巡演：Born Pink 世界巡演场场爆满",
       relation_note: "巡演带动娱乐产业链收益",
-      zone: "现实区间",
+      zone: "reality",
       key_events: [
         {
           time: "2022-09",
           description: "新专辑与巡演双线推进",
-          impact: "推动",
+          impact: "push",
         },
         {
           time: "2023-07",
           description: "巡演口碑小幅松动，出现疲劳声",
-          impact: "波动",
+          impact: "volatile",
+          source_refs: [1],
         },
       ],
     },
@@ -212,22 +276,23 @@ const sampleResponse: TrendResponse = {
       close: 72,
       label: "合约节点：个人走向与团体未来博弈",
       relation_note: "合约谈判让经纪公司及粉丝市场进入观望",
-      zone: "推演区间",
+      zone: "projection",
       key_events: [
         {
           time: "2024-01",
           description: "续约传闻不断，引发粉丝情绪波动",
-          impact: "波动",
+          impact: "volatile",
+          source_refs: [1, 2],
         },
         {
           time: "2025-02",
           description: "个人发展动向引发全球讨论，整体关注高位震荡",
-          impact: "波动",
+          impact: "volatile",
         },
       ],
     },
   ],
-  secondary: {
+  series: [{
     subject: "YG 娱乐",
     metric: "商业动能",
     phases: [
@@ -243,11 +308,11 @@ const sampleResponse: TrendResponse = {
           {
             time: "2016",
             description: "资源集中到新团，财务投入上升",
-            impact: "推动",
+            impact: "push",
           },
         ],
         relation_note: "组合初期表现决定公司调度策略",
-        zone: "现实区间",
+        zone: "reality",
       },
       {
         start_year: 2018,
@@ -258,12 +323,12 @@ const sampleResponse: TrendResponse = {
         close: 65,
         label: "国际曝光带动估值提升",
         relation_note: "组合爆红直接推高股价",
-        zone: "现实区间",
+        zone: "reality",
         key_events: [
           {
             time: "2018-11",
             description: "Blackpink 在欧美爆红，资本预期升温",
-            impact: "推动",
+            impact: "push",
           },
         ],
       },
@@ -276,12 +341,12 @@ const sampleResponse: TrendResponse = {
         close: 70,
         label: "疫情冲击下的内容自救",
         relation_note: "线上内容抵消实体演出损失",
-        zone: "现实区间",
+        zone: "reality",
         key_events: [
           {
             time: "2020-04",
             description: "疫情冲击演出，但线上内容维持曝光",
-            impact: "波动",
+            impact: "volatile",
           },
         ],
       },
@@ -294,12 +359,12 @@ const sampleResponse: TrendResponse = {
         close: 80,
         label: "世界巡演刺激营收与股价",
         relation_note: "巡演现金流让公司基本面改善",
-        zone: "现实区间",
+        zone: "reality",
         key_events: [
           {
             time: "2022-10",
             description: "Born Pink 巡演票房带动财报预期",
-            impact: "推动",
+            impact: "push",
           },
         ],
       },
@@ -316,18 +381,18 @@ const sampleResponse: TrendResponse = {
           {
             time: "2024-06",
             description: "续约谈判反复，投资者保持谨慎",
-            impact: "回撤",
+            impact: "pullback",
           },
           {
             time: "2025-02",
             description: "等待新计划公布，资金流入其他资产",
-            impact: "回撤",
+            impact: "pullback",
           },
         ],
-        zone: "推演区间",
+        zone: "projection",
       },
     ],
-  },
+  }],
   relation_summary: "组合与经纪公司此消彼长：黑粉爆红时，YG 股价被推高；合约不确定时，双方同步承压。",
   overall_analysis:
     "这条曲线像极了潜力股的爆炸式行情：从训练室默默积累，到凭借全球化策略破圈，再在合约期前后出现情绪高位震荡。真正改变斜率的是 2018-2020 年那波内容与巡演组合拳，而 2024 年的续约迷雾则带来一次必要的修正。",
@@ -357,6 +422,7 @@ const sampleResponse: TrendResponse = {
     relationship_judgment:
       "若只看节奏，情绪高点往往领先商业数据半个阶段，但 2024 之后这种牵引关系开始减弱；目前只能说“商业端仍跟随但力度放缓”，并不能断言必然因果。",
   },
+  data_cutoff_date: "2025-02",
   reference_status: "success",
   reference_entries: [
     {
@@ -384,6 +450,14 @@ const yearToTimestamp = (label: number | string, index = 0): UTCTimestamp => {
     const quarter = Number(quarterMatch[2]) - 1;
     return (Date.UTC(year, quarter * 3, 1) / 1000) as UTCTimestamp;
   }
+  const dateMatch = raw.match(
+    /((?:19|20)\d{2})\s*(?:[-/.]|年)\s*(\d{1,2})(?:\s*(?:[-/.]|月)\s*(\d{1,2}))?/,
+  );
+  if (dateMatch) {
+    const month = Math.min(Math.max(Number(dateMatch[2]), 1), 12) - 1;
+    const day = dateMatch[3] ? Number(dateMatch[3]) : 1;
+    return (Date.UTC(Number(dateMatch[1]), month, day) / 1000) as UTCTimestamp;
+  }
   const yearMatch = raw.match(/((?:19|20)\d{2})/);
   if (yearMatch) {
     return (Date.UTC(Number(yearMatch[0]), 0, 1) / 1000) as UTCTimestamp;
@@ -408,19 +482,19 @@ const yearToTimestamp = (label: number | string, index = 0): UTCTimestamp => {
   return (Date.UTC(1970, 0, 1) / 1000 + index * 24 * 60 * 60) as UTCTimestamp;
 };
 
-const defaultTimeLabel = (time: Time): string => {
+const defaultTimeLabel = (time: Time, messages: Messages): string => {
   if (typeof time === "string") {
     return time;
   }
   const date = new Date((time as number) * 1000);
   const year = date.getUTCFullYear();
   if (year >= 2000 && year <= 2100) {
-    return `${year - 1999}季`;
+    return messages.chart.seasonTick(year - 1999);
   }
   if (year === 1970 || isNaN(year)) {
     return "";
   }
-  return `${year}年`;
+  return messages.chart.yearTick(year);
 };
 
 const clampScore = (value: number) => Math.min(Math.max(value, 0), 100);
@@ -478,12 +552,11 @@ const computePhaseRange = (
   return { min: min - gap, max: max + gap };
 };
 
-const describeAxis = (axis?: AxisMeta) => {
+const describeAxis = (messages: Messages, axis?: AxisMeta) => {
   if (!axis) {
     return "";
   }
-  const unit = axis.unit ? `（${axis.unit}）` : "";
-  return `${axis.label}${unit}`;
+  return axis.unit ? messages.chart.axisWithUnit(axis.label, axis.unit) : axis.label;
 };
 
 type ChartPoint = SingleValueData & {
@@ -495,12 +568,32 @@ type ClientDocument = {
   name: string;
   type: string;
   size: number;
-  content: string;
+  file: File;
+};
+
+type UploadPayload = Record<string, unknown> & {
+  documents?: ClientDocument[];
+  dataset?: ClientDocument;
+};
+
+/**
+ * `multipart/form-data` body for the generation and preview endpoints: the
+ * JSON parameters go in a `payload` field and files are sent as-is.
+ */
+const buildUploadForm = ({ documents = [], dataset, ...payload }: UploadPayload) => {
+  const form = new FormData();
+  form.append("payload", JSON.stringify(payload));
+  documents.forEach((doc) => form.append("documents", doc.file, doc.name));
+  if (dataset) {
+    form.append("dataset", dataset.file, dataset.name);
+  }
+  return form;
 };
 
 const MAX_UPLOAD_BYTES = 2 * 1024 * 1024;
 const ACCEPTED_FILE_TYPES =
-  ".txt,.md,.markdown,.pdf,.doc,.docx,.rtf,.html,.htm";
+  ".txt,.md,.markdown,.pdf,.docx,.html,.htm";
+const ACCEPTED_DATASET_TYPES = ".csv,.tsv,.json";
 
 const formatFileSize = (bytes: number) => {
   if (bytes > 1024 * 1024) {
@@ -512,8 +605,136 @@ const formatFileSize = (bytes: number) => {
   return `${bytes} B`;
 };
 
+type GenerationProgress =
+  | {
+      stage: "references";
+      status: NonNullable<TrendResponse["reference_status"]>;
+      count: number;
+      errors: string[];
+    }
+  | { stage: "cache"; hit: boolean }
+  | { stage: "model"; attempt: number }
+  | { stage: "phase"; index: number; phase: Phase }
+  | { stage: "repair"; round: number; issues: number }
+  | { stage: "validated" };
+
+const describeProgress = (
+  progress: GenerationProgress,
+  phaseCount: number,
+  messages: Messages,
+) => {
+  const text = messages.progress;
+  switch (progress.stage) {
+    case "references":
+      if (progress.status === "empty") {
+        return text.referencesEmpty;
+      }
+      return progress.errors.length
+        ? text.referencesPartial(progress.count, progress.errors.length)
+        : text.referencesRead(progress.count);
+    case "cache":
+      return text.cacheHit;
+    case "model":
+      return progress.attempt > 1 ? text.modelRetry : text.model;
+    case "phase":
+      return text.phases(phaseCount);
+    case "repair":
+      return text.repair(progress.issues, progress.round);
+    case "validated":
+      return text.validated;
+  }
+};
+
+type QuotaInfo = {
+  limit: number;
+  remaining: number;
+  resetAt?: string;
+};
+
+const readQuotaHeaders = (res: Response): QuotaInfo | null => {
+  const limit = Number(res.headers.get("X-Quota-Limit"));
+  const remaining = Number(res.headers.get("X-Quota-Remaining"));
+  if (!res.headers.has("X-Quota-Limit") || !Number.isFinite(limit) || !Number.isFinite(remaining)) {
+    return null;
+  }
+  return {
+    limit,
+    remaining,
+    resetAt: res.headers.get("X-Quota-Reset") ?? undefined,
+  };
+};
+
+type GenerationErrorBody = {
+  error?: string;
+  code?: string;
+  details?: unknown;
+  issues?: { path: string; message: string }[];
+};
+
+const MAX_DISPLAYED_ISSUES = 3;
+
+const describeGenerationError = (
+  body: GenerationErrorBody | null,
+  messages: Messages,
+) => {
+  const base =
+    (body?.code && messages.errors.byCode[body.code]) ??
+    body?.error ??
+    messages.errors.generationFailed;
+  if (Array.isArray(body?.issues) && body.issues.length) {
+    const shown = body.issues
+      .slice(0, MAX_DISPLAYED_ISSUES)
+      .map((issue) => `${issue.path}: ${issue.message}`);
+    return messages.errors.withIssues(base, shown, body.issues.length);
+  }
+  if (Array.isArray(body?.details) && body.details.length) {
+    return messages.errors.withDetails(base, body.details);
+  }
+  return base;
+};
+
+const readGenerationStream = async (
+  res: Response,
+  onProgress: (progress: GenerationProgress) => void,
+  messages: Messages,
+): Promise<TrendResponse> => {
+  const reader = res.body?.getReader();
+  if (!reader) {
+    throw new Error(messages.errors.streamUnsupported);
+  }
+  let finalResult: TrendResponse | null = null;
+  let streamError: string | null = null;
+  const feed = createSseParser(({ event, data }) => {
+    const payload = JSON.parse(data);
+    if (event === "progress") {
+      onProgress(payload as GenerationProgress);
+    } else if (event === "result") {
+      finalResult = payload as TrendResponse;
+    } else if (event === "error") {
+      streamError = describeGenerationError(payload as GenerationErrorBody, messages);
+    }
+  });
+  const decoder = new TextDecoder();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    feed(decoder.decode(value, { stream: true }));
+  }
+  feed(`${decoder.decode()}\n\n`);
+  if (streamError) {
+    throw new Error(streamError);
+  }
+  if (!finalResult) {
+    throw new Error(messages.errors.streamInterrupted);
+  }
+  return finalResult;
+};
+
 const buildAreaData = (
   phases: Phase[],
+  messages: Messages,
   labelMap?: Map<number, string>,
 ): ChartPoint[] => {
   if (!phases.length) {
@@ -545,29 +766,27 @@ const buildAreaData = (
   phases.forEach((phase, index) => {
     const startTime = yearToTimestamp(phase.start_year, index);
     const endTime = yearToTimestamp(phase.end_year, index + 1);
-    const boundedOpen = clampScore(phase.open);
-    const boundedClose = clampScore(phase.close);
     const startLabel =
       typeof phase.start_year === "number"
-        ? `${phase.start_year}年`
+        ? messages.chart.yearTick(phase.start_year)
         : String(phase.start_year);
     const endLabel =
       typeof phase.end_year === "number"
-        ? `${phase.end_year}年`
+        ? messages.chart.yearTick(phase.end_year)
         : String(phase.end_year);
 
     if (index === 0) {
-      pushPoint(startTime, boundedOpen, phase, startLabel);
+      pushPoint(startTime, phase.open, phase, startLabel);
     } else {
       const prev = phases[index - 1];
       const shouldBridge =
         prev.end_year !== phase.start_year || prev.close !== phase.open;
       if (shouldBridge) {
-        pushPoint(startTime, boundedOpen, phase, startLabel);
+        pushPoint(startTime, phase.open, phase, startLabel);
       }
     }
 
-    pushPoint(endTime, boundedClose, phase, endLabel);
+    pushPoint(endTime, phase.close, phase, endLabel);
   });
 
   return points;
@@ -588,15 +807,203 @@ const summarizePhaseEvent = (phase: Phase) => {
   return phase.label;
 };
 
-const resolveZoneLabel = (phase?: Phase) => phase?.zone ?? "现实区间";
+const resolveZone = (phase?: Phase): TrendZone => normalizeZone(phase?.zone) ?? "reality";
+
+const isProjectionPhase = (phase?: Phase) => resolveZone(phase) === "projection";
+
+const describeImpact = (impact: string, messages: Messages) => {
+  const normalized = normalizeImpact(impact);
+  return normalized ? messages.impacts[normalized] : impact;
+};
+
+/** `primary` is the red line; a number indexes into the comparison series. */
+type PhaseSeries = "primary" | number;
 
-const isProjectionPhase = (phase?: Phase) => resolveZoneLabel(phase) === "推演区间";
+type PhaseAction = "regenerate" | "drilldown";
+
+/** Line colours in drawing order; the main line always takes the first (red). */
+const SERIES_PALETTE = ["#ef4444", "#16a34a", "#2563eb", "#f59e0b", "#9333ea", "#0891b2"];
+
+const withAlpha = (hex: string, alpha: number) => {
+  const value = Number.parseInt(hex.slice(1), 16);
+  return `rgba(${(value >> 16) & 255},${(value >> 8) & 255},${value & 255},${alpha})`;
+};
+
+/** Comparison lines of a response; a legacy `secondary` counts as the only one. */
+const readComparisonSeries = (response: TrendResponse): TrendSeries[] => {
+  const lines = response.series ?? (response.secondary ? [response.secondary] : []);
+  return lines.map((line, index) =>
+    index === 0 && !line.axis ? { ...line, axis: response.chart_notes?.secondary_axis } : line,
+  );
+};
+
+/** Looks up the label behind a server path such as `series[0].phases[2]`. */
+const resolvePhaseLabel = (response: TrendResponse, path: string) => {
+  const match = path.match(/^(?:series\[(\d+)\]\.)?phases\[(\d+)\]$/);
+  const phases = match?.[1]
+    ? readComparisonSeries(response)[Number(match[1])]?.phases
+    : response.phases;
+  return (match && phases?.[Number(match[2])]?.label) || path;
+};
+
+const describeReferenceSource = (entry: ReferenceEntryMeta, messages: Messages) =>
+  entry.type === "text"
+    ? messages.references.supplementalText
+    : entry.type === "file"
+      ? messages.references.file(entry.source)
+      : (entry.title ?? entry.source);
+
+/** Green / red read-out of a link or file from the reference preview. */
+const ReferenceCheckStatus = ({
+  check,
+  messages,
+}: {
+  check?: ReferenceCheck;
+  messages: Messages;
+}) => {
+  if (!check) {
+    return <span className="link-status">{messages.evidence.inUse}</span>;
+  }
+  if (check.state === "checking") {
+    return (
+      <span className="link-status link-status--checking">
+        {messages.evidence.checking}
+      </span>
+    );
+  }
+  const { item } = check;
+  if (item.status === "error") {
+    return (
+      <span className="link-status link-status--error" title={item.error}>
+        {item.error ?? messages.evidence.checkFailed}
+      </span>
+    );
+  }
+  return (
+    <span className="link-status" title={item.excerpt}>
+      {messages.evidence.checkOk(
+        item.chars ?? 0,
+        messages.evidence.languages[item.language ?? "unknown"],
+      )}
+      {item.truncated && ` · ${messages.evidence.checkTruncated}`}
+    </span>
+  );
+};
+
+/** Footnote markers for an event's `source_refs`; with `onOpen` they are buttons. */
+const SourceRefMarkers = ({
+  refs,
+  entries,
+  messages,
+  onOpen,
+}: {
+  refs?: number[];
+  entries: ReferenceEntryMeta[];
+  messages: Messages;
+  onOpen?: (ref: number) => void;
+}) => {
+  const cited = (refs ?? []).filter((ref) => entries[ref - 1]);
+  if (!cited.length) {
+    return null;
+  }
+  return (
+    <span className="source-refs">
+      {cited.map((ref) => {
+        const title = describeReferenceSource(entries[ref - 1], messages);
+        return onOpen ? (
+          <button
+            key={ref}
+            type="button"
+            className="source-ref"
+            title={messages.references.openSource(title)}
+            onClick={(event) => {
+              event.stopPropagation();
+              onOpen(ref);
+            }}
+          >
+            [{ref}]
+          </button>
+        ) : (
+          <sup key={ref} className="source-ref" title={title}>
+            [{ref}]
+          </sup>
+        );
+      })}
+    </span>
+  );
+};
+
+const PhaseCard = ({
+  phase,
+  selected,
+  disabled,
+  messages,
+  onSelect,
+  onAction,
+}: {
+  phase: Phase;
+  selected: boolean;
+  disabled: boolean;
+  messages: Messages;
+  onSelect: () => void;
+  onAction: (action: PhaseAction) => void;
+}) => (
+  <article
+    className={`phase-card ${
+      isProjectionPhase(phase) ? "phase-card--projection" : ""
+    } ${selected ? "phase-card--selected" : ""}`}
+    onClick={onSelect}
+  >
+    <div className="phase-head">
+      <h4>
+        {phase.start_year} - {phase.end_year}
+      </h4>
+      <span className="zone-pill">{messages.zones[resolveZone(phase)]}</span>
+    </div>
+    <p>{phase.label}</p>
+    <p className="mt-2 text-xs text-slate-400">
+      {messages.phase.range(phase.low, phase.high, phase.close)}
+    </p>
+    {selected && (
+      <div
+        className="phase-actions"
+        aria-label={messages.phase.actions}
+        onClick={(event) => event.stopPropagation()}
+      >
+        <button
+          type="button"
+          className="pill-button"
+          disabled={disabled}
+          onClick={() => onAction("regenerate")}
+        >
+          {messages.phase.regenerate}
+        </button>
+        <button
+          type="button"
+          className="pill-button"
+          disabled={disabled}
+          onClick={() => onAction("drilldown")}
+        >
+          {messages.phase.drillDown}
+        </button>
+      </div>
+    )}
+  </article>
+);
 
 type AxisConfig = {
   meta?: AxisMeta;
   range?: AxisRange | null;
 };
 
+type ChartLine = {
+  phases: Phase[];
+  color: string;
+  visible: boolean;
+  /** Only a lone comparison line gets the left scale (dual-axis mode). */
+  priceScaleId: "left" | "right";
+};
+
 type ChartPanelHandle = {
   captureImage: () => Promise<string | null>;
 };
@@ -604,15 +1011,14 @@ type ChartPanelHandle = {
 const ChartPanel = forwardRef<
   ChartPanelHandle,
   {
-    phases: Phase[];
-    secondaryPhases?: Phase[];
+    /** The main line first, then every comparison line in `series` order. */
+    lines: ChartLine[];
     axes?: {
       primary?: AxisConfig;
       secondary?: AxisConfig;
     };
     onHoverPhase: (
-      primary: Phase | null,
-      secondary: Phase | null,
+      phases: (Phase | null)[],
       position?: { x: number; y: number },
     ) => void;
     meta: {
@@ -621,14 +1027,19 @@ const ChartPanel = forwardRef<
       tag: string;
       legends: { label: string; color: string }[];
     };
+    messages: Messages;
   }
->(({ phases, secondaryPhases, axes, onHoverPhase, meta }, ref) => {
+>(({ lines, axes, onHoverPhase, meta, messages }, ref) => {
   const containerRef = useRef<HTMLDivElement | null>(null);
   const chartRef = useRef<ReturnType<typeof createChart> | null>(null);
-  const seriesRef = useRef<ISeriesApi<"Area"> | null>(null);
+  const lineSeriesRef = useRef<ISeriesApi<"Area">[]>([]);
   const boundsSeriesRef = useRef<ISeriesApi<"Area"> | null>(null);
-  const secondarySeriesRef = useRef<ISeriesApi<"Area"> | null>(null);
   const labelMapRef = useRef<Map<number, string>>(new Map());
+  const messagesRef = useRef(messages);
+
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
 
   useImperativeHandle(
     ref,
@@ -714,26 +1125,11 @@ const ChartPanel = forwardRef<
               return custom;
             }
           }
-          return defaultTimeLabel(time);
+          return defaultTimeLabel(time, messagesRef.current);
         },
       },
     });
 
-    const series = chart.addSeries(AreaSeries, {
-      lineColor: "#ef4444",
-      lineWidth: 3,
-      topColor: "rgba(239,68,68,0.25)",
-      bottomColor: "rgba(239,68,68,0.05)",
-      priceLineVisible: false,
-      lastValueVisible: false,
-      priceScaleId: "right",
-    });
-    series.applyOptions({
-      autoscaleInfoProvider: () => ({
-        priceRange: { minValue: 0, maxValue: 100 },
-      }),
-    });
-
     const boundsSeries = chart.addSeries(AreaSeries, {
       lineWidth: 1,
       lineColor: "rgba(0,0,0,0)",
@@ -744,21 +1140,8 @@ const ChartPanel = forwardRef<
       crosshairMarkerVisible: false,
     });
 
-    const secondarySeries = chart.addSeries(AreaSeries, {
-      lineColor: "#16a34a",
-      lineWidth: 3,
-      topColor: "rgba(34,197,94,0.2)",
-      bottomColor: "rgba(34,197,94,0.04)",
-      priceLineVisible: false,
-      lastValueVisible: false,
-      visible: false,
-      priceScaleId: "left",
-    });
-
     chartRef.current = chart;
-    seriesRef.current = series;
     boundsSeriesRef.current = boundsSeries;
-    secondarySeriesRef.current = secondarySeries;
 
     const resizeObserver = new ResizeObserver((entries) => {
       for (const entry of entries) {
@@ -774,28 +1157,51 @@ const ChartPanel = forwardRef<
       resizeObserver.disconnect();
         chart.remove();
         chartRef.current = null;
-        seriesRef.current = null;
+        lineSeriesRef.current = [];
         boundsSeriesRef.current = null;
-        secondarySeriesRef.current = null;
       };
   }, []);
 
   useEffect(() => {
-    if (!seriesRef.current || !chartRef.current) {
+    const chart = chartRef.current;
+    if (!chart) {
       return;
     }
+    const lineSeries = lineSeriesRef.current;
+    for (const stale of lineSeries.splice(lines.length)) {
+      chart.removeSeries(stale);
+    }
+    while (lineSeries.length < lines.length) {
+      lineSeries.push(
+        chart.addSeries(AreaSeries, {
+          lineWidth: 3,
+          priceLineVisible: false,
+          lastValueVisible: false,
+        }),
+      );
+    }
     const labelMap = new Map<number, string>();
-    const data = buildAreaData(phases, labelMap);
+    const lineData = lines.map((line) => buildAreaData(line.phases, messages, labelMap));
     labelMapRef.current = labelMap;
-    seriesRef.current.setData(data);
-    if (secondaryPhases?.length && secondarySeriesRef.current) {
-      const secondaryData = buildAreaData(secondaryPhases, labelMap);
-      secondarySeriesRef.current.setData(secondaryData);
-      secondarySeriesRef.current.applyOptions({ visible: true });
-    } else {
-      secondarySeriesRef.current?.setData([]);
-      secondarySeriesRef.current?.applyOptions({ visible: false });
-    }
+    lines.forEach((line, index) => {
+      const series = lineSeries[index];
+      series.applyOptions({
+        lineColor: line.color,
+        topColor: withAlpha(line.color, index === 0 ? 0.25 : 0.2),
+        bottomColor: withAlpha(line.color, index === 0 ? 0.05 : 0.04),
+        priceScaleId: line.priceScaleId,
+        visible: line.visible && line.phases.length > 0,
+      });
+      if (line.priceScaleId === "right") {
+        series.applyOptions({
+          autoscaleInfoProvider: () => ({
+            priceRange: { minValue: 0, maxValue: 100 },
+          }),
+        });
+      }
+      series.setData(lineData[index]);
+    });
+    const data = lineData[0] ?? [];
     if (boundsSeriesRef.current && data.length) {
       const firstTime = data[0]?.time;
       const lastTime = data[data.length - 1]?.time ?? firstTime;
@@ -806,7 +1212,7 @@ const ChartPanel = forwardRef<
         ]);
       }
     }
-    chartRef.current.applyOptions({
+    chart.applyOptions({
       localization: {
         priceFormatter: (value: number) => {
           if (axes?.primary?.meta?.kind === "subjective") {
@@ -816,7 +1222,7 @@ const ChartPanel = forwardRef<
         },
       },
     });
-    chartRef.current.timeScale().fitContent();
+    chart.timeScale().fitContent();
     const applyPriceScale = (
       scaleId: "right" | "left",
       info?: AxisConfig,
@@ -851,13 +1257,15 @@ const ChartPanel = forwardRef<
         maxValue: range?.max ?? 100,
       });
     };
-    applyPriceScale("right", axes?.primary, true, phases);
-    const hasSecondary = Boolean(secondaryPhases?.length);
-    applyPriceScale("left", axes?.secondary, hasSecondary, secondaryPhases ?? []);
-  }, [axes, phases, secondaryPhases]);
+    applyPriceScale("right", axes?.primary, true, lines[0]?.phases ?? []);
+    const leftLine = lines.find(
+      (line) => line.priceScaleId === "left" && line.visible && line.phases.length > 0,
+    );
+    applyPriceScale("left", axes?.secondary, Boolean(leftLine), leftLine?.phases ?? []);
+  }, [axes, lines, messages]);
 
   useEffect(() => {
-    if (!chartRef.current || !seriesRef.current) {
+    if (!chartRef.current) {
       return;
     }
     type CrosshairHandler = Parameters<
@@ -865,25 +1273,21 @@ const ChartPanel = forwardRef<
     >[0];
     const handleCrosshair: CrosshairHandler = (param) => {
       if (!param.time || !param.point) {
-        onHoverPhase(null, null);
+        onHoverPhase([]);
         return;
       }
-      const pointData = seriesRef.current
-        ? (param.seriesData?.get(
-            seriesRef.current as NonNullable<typeof seriesRef.current>,
-          ) as ChartPoint | undefined)
-        : undefined;
-      const secondaryPoint =
-        secondarySeriesRef.current && secondaryPhases && secondaryPhases.length > 0
-          ? (param.seriesData?.get(
-              secondarySeriesRef.current as NonNullable<typeof secondarySeriesRef.current>,
-            ) as ChartPoint | undefined)
-          : undefined;
-      if (!pointData?.phase && !secondaryPoint?.phase) {
-        onHoverPhase(null, null);
+      const hovered = lineSeriesRef.current.map((series, index) => {
+        if (!lines[index]?.visible) {
+          return null;
+        }
+        const point = param.seriesData?.get(series) as ChartPoint | undefined;
+        return point?.phase ?? null;
+      });
+      if (!hovered.some(Boolean)) {
+        onHoverPhase([]);
         return;
       }
-      onHoverPhase(pointData?.phase ?? null, secondaryPoint?.phase ?? null, {
+      onHoverPhase(hovered, {
         x: param.point.x,
         y: param.point.y,
       });
@@ -893,7 +1297,7 @@ const ChartPanel = forwardRef<
     return () => {
       chartRef.current?.unsubscribeCrosshairMove(handleCrosshair);
     };
-  }, [onHoverPhase, secondaryPhases]);
+  }, [lines, onHoverPhase]);
 
   return (
     <div className="trend-chart">
@@ -905,39 +1309,64 @@ const ChartPanel = forwardRef<
 ChartPanel.displayName = "ChartPanel";
 
 export default function Home() {
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
+  const t = getMessages(locale);
   const [query, setQuery] = useState("");
-  const [result, setResult] = useState<TrendResponse>(sampleResponse);
+  const [history, setHistory] = useState<RevisionHistory>({
+    entries: [sampleResponse],
+    index: 0,
+  });
+  const result = history.entries[history.index];
+  const [refineText, setRefineText] = useState("");
+  const [selectedPhase, setSelectedPhase] = useState<{
+    series: PhaseSeries;
+    index: number;
+  } | null>(null);
   const [loading, setLoading] = useState(false);
+  const [progressText, setProgressText] = useState<string | null>(null);
+  const [streamPhases, setStreamPhases] = useState<Phase[]>([]);
+  const [quota, setQuota] = useState<QuotaInfo | null>(null);
   const [error, setError] = useState<string | null>(null);
   const chartHandleRef = useRef<ChartPanelHandle | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
   const [actionHint, setActionHint] = useState<string | null>(null);
-  const [placeholder, setPlaceholder] = useState(placeholderSamples[0]);
+  const [placeholderIndex, setPlaceholderIndex] = useState(0);
+  const placeholder =
+    t.placeholderSamples[placeholderIndex % t.placeholderSamples.length];
   const [supplementText, setSupplementText] = useState("");
   const [referenceLinks, setReferenceLinks] = useState<string[]>([""]);
   const [documents, setDocuments] = useState<ClientDocument[]>([]);
+  const [referenceChecks, setReferenceChecks] = useState<Record<string, ReferenceCheck>>({});
+  const requestedChecksRef = useRef(new Set<string>());
+  const [activeReference, setActiveReference] = useState<number | null>(null);
+  const [dataset, setDataset] = useState<ClientDocument | null>(null);
   const [hoverState, setHoverState] = useState<{
-    primary?: Phase;
-    secondary?: Phase;
+    /** Hovered phase per chart line, in the same order as `chartLines`. */
+    phases: (Phase | null)[];
     position?: { x: number; y: number };
   } | null>(null);
+  const [hiddenLines, setHiddenLines] = useState<string[]>([]);
   const primaryAxisMeta = result.chart_notes?.primary_axis;
-  const secondaryAxisMeta = result.chart_notes?.secondary_axis;
   const shouldClampPrimary = primaryAxisMeta?.kind === "objective" ? false : true;
-  const shouldClampSecondary =
-    secondaryAxisMeta?.kind === "objective" ? false : true;
   const displayPhases = useMemo(
     () => normalizePhases(result.phases, shouldClampPrimary),
     [result.phases, shouldClampPrimary],
   );
-  const displaySecondary = useMemo(() => {
-    if (!result.secondary) {
-      return undefined;
-    }
-    return {
-      ...result.secondary,
-      phases: normalizePhases(result.secondary.phases, shouldClampSecondary),
-    };
-  }, [result.secondary, shouldClampSecondary]);
+  const previewPhases = useMemo(
+    () => normalizePhases(streamPhases, true),
+    [streamPhases],
+  );
+  const isStreamingPreview = loading && previewPhases.length > 0;
+  const comparisonSeries = useMemo(
+    () =>
+      readComparisonSeries(result).map((line) => ({
+        ...line,
+        phases: normalizePhases(line.phases, line.axis?.kind !== "objective"),
+      })),
+    [result],
+  );
+  const dualAxis = comparisonSeries.length === 1;
+  const secondaryAxisMeta = dualAxis ? comparisonSeries[0].axis : undefined;
   const eventHighlights = useMemo<(TrendEvent & { phaseLabel?: string })[]>(() => {
     const byPhases = displayPhases.flatMap((phase) =>
       (phase.key_events ?? []).map((event) => ({
@@ -945,75 +1374,153 @@ export default function Home() {
         phaseLabel: `${result.subject} · ${phase.label}`,
       })),
     );
-    const secondaryEvents =
-      displaySecondary?.phases.flatMap((phase) =>
+    const comparisonEvents = comparisonSeries.flatMap((line) =>
+      line.phases.flatMap((phase) =>
         (phase.key_events ?? []).map((event) => ({
           ...event,
-          phaseLabel: `${displaySecondary?.subject ?? "对照"} · ${phase.label}`,
+          phaseLabel: `${line.subject || t.counterpart} · ${phase.label}`,
         })),
-      ) ?? [];
-    const combined = [...byPhases, ...secondaryEvents];
+      ),
+    );
+    const combined = [...byPhases, ...comparisonEvents];
     if (combined.length) {
       return combined;
     }
     return (result.events ?? []).map((event) => ({ ...event }));
-  }, [displayPhases, displaySecondary, result.events, result.subject]);
+  }, [comparisonSeries, displayPhases, result.events, result.subject, t]);
   const analysisText = result.overall_analysis ?? result.analysis ?? null;
   const referenceStatus = result.reference_status ?? "empty";
   const referenceSources = result.reference_entries ?? [];
   const referenceErrors = result.reference_errors ?? [];
-  const referenceNote = useMemo(() => {
-    if (referenceStatus === "success") {
-      return "✅ 已参考你提供的资料，AI 将其作为事实锚点。";
-    }
-    if (referenceStatus === "partial") {
-      return "⚠️ 仅部分资料读取成功，下方列出的内容已纳入分析，其余已忽略。";
-    }
-    if (referenceStatus === "failed") {
-      return "❌ 未能成功读取你提供的资料，已回退为公开信息。";
-    }
-    return "系统基于公开信息与 AI 搜索生成走势。";
-  }, [referenceStatus]);
+  const referenceNote = t.references[referenceStatus];
   const showReferenceSources =
     (referenceStatus === "success" || referenceStatus === "partial") &&
     referenceSources.length > 0;
+  const citableSources = showReferenceSources ? referenceSources : [];
   const primaryRange = useMemo(
     () => computePhaseRange(displayPhases, primaryAxisMeta),
     [displayPhases, primaryAxisMeta],
   );
   const secondaryRange = useMemo(
     () =>
-      displaySecondary?.phases
-        ? computePhaseRange(displaySecondary.phases, secondaryAxisMeta)
-        : null,
-    [displaySecondary?.phases, secondaryAxisMeta],
-  );
-  const chartLegends = useMemo(
-    () =>
-      displaySecondary
-        ? [
-            { label: `${result.subject}（主动）`, color: "#ef4444" },
-            { label: `${displaySecondary.subject}（对照）`, color: "#16a34a" },
-          ]
-        : [{ label: `${result.subject}`, color: "#ef4444" }],
-    [displaySecondary, result.subject],
+      dualAxis ? computePhaseRange(comparisonSeries[0].phases, secondaryAxisMeta) : null,
+    [comparisonSeries, dualAxis, secondaryAxisMeta],
   );
+  const chartLegends = useMemo(() => {
+    if (!comparisonSeries.length) {
+      return [{ subject: result.subject, label: result.subject, color: SERIES_PALETTE[0] }];
+    }
+    const subjects = [result.subject, ...comparisonSeries.map((line) => line.subject)];
+    return subjects.map((subject, line) => {
+      const rank =
+        result.series_ranking?.find((entry) => entry.line === line)?.rank ?? line + 1;
+      return {
+        subject,
+        label: dualAxis
+          ? line === 0
+            ? t.chart.primaryLegend(subject)
+            : t.chart.secondaryLegend(subject)
+          : t.chart.rankedLegend(subject, rank),
+        color: SERIES_PALETTE[line % SERIES_PALETTE.length],
+      };
+    });
+  }, [comparisonSeries, dualAxis, result.series_ranking, result.subject, t]);
+  const chartLines = useMemo<ChartLine[]>(() => {
+    if (isStreamingPreview) {
+      return [
+        { phases: previewPhases, color: SERIES_PALETTE[0], visible: true, priceScaleId: "right" },
+      ];
+    }
+    return [displayPhases, ...comparisonSeries.map((line) => line.phases)].map(
+      (phases, line) => ({
+        phases,
+        color: chartLegends[line].color,
+        visible: !hiddenLines.includes(chartLegends[line].subject),
+        priceScaleId: dualAxis && line === 1 ? "left" : "right",
+      }),
+    );
+  }, [
+    chartLegends,
+    comparisonSeries,
+    displayPhases,
+    dualAxis,
+    hiddenLines,
+    isStreamingPreview,
+    previewPhases,
+  ]);
   const chartMeta = useMemo(
     () => ({
       title: `${result.subject} · ${result.metric}`,
       timeframe: result.timeframe,
-      tag: displaySecondary
-        ? `双线对照 · ${result.phases.length} 段`
-        : `阶段数：${result.phases.length} 段`,
-      legends: chartLegends,
+      tag:
+        comparisonSeries.length > 1
+          ? t.chart.multiTag(comparisonSeries.length + 1, result.phases.length)
+          : comparisonSeries.length
+            ? t.chart.dualTag(result.phases.length)
+            : t.chart.singleTag(result.phases.length),
+      legends: chartLegends.filter((legend) => !hiddenLines.includes(legend.subject)),
     }),
-    [chartLegends, displaySecondary, result.metric, result.phases.length, result.subject, result.timeframe],
+    [
+      chartLegends,
+      comparisonSeries.length,
+      hiddenLines,
+      result.metric,
+      result.phases.length,
+      result.subject,
+      result.timeframe,
+      t,
+    ],
   );
+  const hoveredLines = hoverState
+    ? chartLegends.flatMap((legend, line) => {
+        const phase = hoverState.phases[line];
+        return phase ? [{ ...legend, phase }] : [];
+      })
+    : [];
+
+  const handleToggleLine = useCallback((subject: string) => {
+    setHiddenLines((prev) =>
+      prev.includes(subject) ? prev.filter((item) => item !== subject) : [...prev, subject],
+    );
+  }, []);
+
+  useEffect(() => {
+    setPlaceholderIndex(Math.floor(Math.random() * 1000));
+  }, []);
+
+  useEffect(() => {
+    const stored = matchLocale(window.localStorage.getItem(LOCALE_STORAGE_KEY));
+    const preferred = stored ?? matchLocale(window.navigator.language);
+    if (preferred) {
+      setLocale(preferred);
+    }
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const handleToggleLocale = useCallback(() => {
+    setLocale((prev) => {
+      const next: Locale = prev === "en" ? "zh-CN" : "en";
+      window.localStorage.setItem(LOCALE_STORAGE_KEY, next);
+      return next;
+    });
+  }, []);
 
   useEffect(() => {
-    const randomPlaceholder =
-      placeholderSamples[Math.floor(Math.random() * placeholderSamples.length)];
-    setPlaceholder(randomPlaceholder);
+    let cancelled = false;
+    fetch("/api/quota")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((body: { enabled?: boolean; quota?: QuotaInfo } | null) => {
+        if (!cancelled && body?.enabled && body.quota) {
+          setQuota(body.quota);
+        }
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
   useEffect(() => {
@@ -1033,50 +1540,55 @@ export default function Home() {
       ? crypto.randomUUID()
       : `${Date.now()}-${Math.random().toString(16).slice(2)}`;
 
-  const convertFileToDocument = useCallback((file: File) => {
+  const createClientDocument = useCallback((file: File): ClientDocument => {
     if (file.size > MAX_UPLOAD_BYTES) {
-      throw new Error("单个文件需小于 2MB，请压缩后再上传。");
+      throw new Error(t.hints.fileTooLarge);
     }
-    return new Promise<ClientDocument>((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        const result = reader.result as string;
-        const content = result.includes(",")
-          ? result.split(",").pop() ?? ""
-          : result;
-        resolve({
-          id: generateDocumentId(),
-          name: file.name,
-          type: file.type,
-          size: file.size,
-          content,
-        });
-      };
-      reader.onerror = () => reject(new Error("无法读取文件，请重试。"));
-      reader.readAsDataURL(file);
-    });
-  }, []);
+    return {
+      id: generateDocumentId(),
+      name: file.name,
+      type: file.type,
+      size: file.size,
+      file,
+    };
+  }, [t]);
 
   const handleFilesSelected = useCallback(
-    async (fileList: FileList | null) => {
+    (fileList: FileList | null) => {
       if (!fileList?.length) {
         return;
       }
       const remainingSlots = Math.max(0, 5 - documents.length);
       if (remainingSlots === 0) {
-        showHint("最多上传 5 份资料。");
+        showHint(t.hints.maxDocuments);
         return;
       }
       const files = Array.from(fileList).slice(0, remainingSlots);
       try {
-        const parsed = await Promise.all(files.map(convertFileToDocument));
-        setDocuments((prev) => [...prev, ...parsed]);
-        showHint("资料已添加为分析依据。");
+        const added = files.map(createClientDocument);
+        setDocuments((prev) => [...prev, ...added]);
+        showHint(t.hints.documentsAdded);
       } catch (err) {
-        showHint(err instanceof Error ? err.message : "文件读取失败，请重试。");
+        showHint(err instanceof Error ? err.message : t.hints.fileReadFailed);
       }
     },
-    [convertFileToDocument, documents.length, showHint],
+    [createClientDocument, documents.length, showHint, t],
+  );
+
+  const handleDatasetSelected = useCallback(
+    (fileList: FileList | null) => {
+      const file = fileList?.[0];
+      if (!file) {
+        return;
+      }
+      try {
+        setDataset(createClientDocument(file));
+        showHint(t.hints.documentsAdded);
+      } catch (err) {
+        showHint(err instanceof Error ? err.message : t.hints.fileReadFailed);
+      }
+    },
+    [createClientDocument, showHint, t],
   );
 
   const handleRemoveDocument = useCallback((id: string) => {
@@ -1104,59 +1616,236 @@ export default function Home() {
     });
   }, []);
 
-  const runGeneration = useCallback(async (input: string) => {
-    const cleanQuery = input.trim();
-    if (!cleanQuery) {
-      setError("请输入一句想要解析的走势描述。");
+  // New links (once typing pauses) and attached files are read by the preview
+  // endpoint in one request, which takes one burst token like a generation.
+  useEffect(() => {
+    const pendingFiles = documents.filter(
+      (doc) => !requestedChecksRef.current.has(`file:${doc.id}`),
+    );
+    const pendingLinks = Array.from(
+      new Set(
+        referenceLinks
+          .map((link) => link.trim())
+          .filter((link) => /^https?:\/\/[^\s/]+\.[^\s]+$/i.test(link)),
+      ),
+    ).filter((link) => !requestedChecksRef.current.has(`link:${link}`));
+    if (!pendingFiles.length && !pendingLinks.length) {
       return;
     }
-
+    const timer = window.setTimeout(() => {
+      // Items come back files first, then links, in request order.
+      const keys = [
+        ...pendingFiles.map((doc) => `file:${doc.id}`),
+        ...pendingLinks.map((link) => `link:${link}`),
+      ];
+      keys.forEach((key) => requestedChecksRef.current.add(key));
+      setReferenceChecks((prev) => ({
+        ...prev,
+        ...Object.fromEntries(keys.map((key) => [key, { state: "checking" as const }])),
+      }));
+      fetch("/api/references/preview", {
+        method: "POST",
+        body: buildUploadForm({ documents: pendingFiles, links: pendingLinks }),
+      })
+        .then(async (res) => {
+          const body = (await res.json().catch(() => null)) as {
+            items?: ReferencePreviewItem[];
+            error?: string;
+          } | null;
+          return keys.map(
+            (_, index): ReferencePreviewItem =>
+              (res.ok && body?.items?.[index]) || { status: "error", error: body?.error },
+          );
+        })
+        .catch(() => keys.map((): ReferencePreviewItem => ({ status: "error" })))
+        .then((items) =>
+          setReferenceChecks((prev) => ({
+            ...prev,
+            ...Object.fromEntries(
+              keys.map((key, index) => [key, { state: "done" as const, item: items[index] }]),
+            ),
+          })),
+        );
+    }, 600);
+    return () => window.clearTimeout(timer);
+  }, [documents, referenceLinks]);
+
+  const buildReferencePayload = useCallback(() => ({
+    supplementalText: supplementText.trim() || undefined,
+    links: referenceLinks.map((link) => link.trim()).filter((link) => Boolean(link)),
+    documents,
+    dataset: dataset ?? undefined,
+  }), [dataset, documents, referenceLinks, supplementText]);
+
+  const requestTrend = useCallback(async (
+    endpoint: string,
+    requestPayload: UploadPayload,
+    onResult: (next: TrendResponse) => void,
+  ) => {
+    generationAbortRef.current?.abort();
+    const abortController = new AbortController();
+    generationAbortRef.current = abortController;
     setLoading(true);
     setError(null);
+    setStreamPhases([]);
+    setProgressText(t.progress.start);
     try {
-      const activeLinks = referenceLinks
-        .map((link) => link.trim())
-        .filter((link) => Boolean(link));
-      const requestPayload = {
-        prompt: cleanQuery,
-        supplementalText: supplementText.trim() || undefined,
-        links: activeLinks,
-        documents: documents.map((doc) => ({
-          name: doc.name,
-          type: doc.type,
-          content: doc.content,
-        })),
-      };
-      const res = await fetch("/api/generate", {
+      const res = await fetch(endpoint, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(requestPayload),
+        headers: { Accept: "text/event-stream" },
+        body: buildUploadForm({ ...requestPayload, stream: true, locale }),
+        signal: abortController.signal,
       });
+      const nextQuota = readQuotaHeaders(res);
+      if (nextQuota) {
+        setQuota(nextQuota);
+      }
 
       if (!res.ok) {
-        const responseBody = await res.json().catch(() => null);
-        const detail =
-          Array.isArray(responseBody?.details) && responseBody.details.length
-            ? `（${responseBody.details.join("；")}）`
-            : "";
-        throw new Error(
-          (responseBody?.error ?? "生成失败，请稍后再试。") + detail,
-        );
+        const responseBody = (await res
+          .json()
+          .catch(() => null)) as GenerationErrorBody | null;
+        throw new Error(describeGenerationError(responseBody, t));
       }
 
-      const responsePayload = (await res.json()) as TrendResponse;
+      let phaseCount = 0;
+      const responsePayload = await readGenerationStream(res, (progress) => {
+        if (progress.stage === "model") {
+          phaseCount = 0;
+          setStreamPhases([]);
+        } else if (progress.stage === "phase") {
+          phaseCount += 1;
+          setStreamPhases((prev) => [...prev, progress.phase]);
+        }
+        setProgressText(describeProgress(progress, phaseCount, t));
+      }, t);
       if (!responsePayload?.phases?.length) {
-        throw new Error("AI 未返回有效走势，请稍后重试。");
+        throw new Error(t.errors.emptyResult);
       }
-      setResult(responsePayload);
+      onResult(responsePayload);
     } catch (err) {
+      if (abortController.signal.aborted) {
+        showHint(t.hints.cancelled);
+        return;
+      }
       const message =
-        err instanceof Error ? err.message : "生成失败，请稍后再试。";
+        err instanceof Error ? err.message : t.errors.generationFailed;
       setError(message);
     } finally {
-      setLoading(false);
+      if (generationAbortRef.current === abortController) {
+        generationAbortRef.current = null;
+        setLoading(false);
+        setProgressText(null);
+        setStreamPhases([]);
+      }
     }
-  }, [documents, referenceLinks, supplementText]);
+  }, [locale, showHint, t]);
+
+  const runGeneration = useCallback(async (
+    input: string,
+    options: { force?: boolean } = {},
+  ) => {
+    const cleanQuery = input.trim();
+    if (!cleanQuery) {
+      setError(t.errors.emptyQuery);
+      return;
+    }
+    await requestTrend(
+      "/api/generate",
+      {
+        prompt: cleanQuery,
+        ...buildReferencePayload(),
+        force: options.force || undefined,
+      },
+      (next) => {
+        setHistory({ entries: [next], index: 0 });
+        setSelectedPhase(null);
+        setActiveReference(null);
+      },
+    );
+  }, [buildReferencePayload, requestTrend, t]);
+
+  const pushRevision = useCallback((next: TrendResponse) => {
+    setHistory((prev) => ({
+      entries: [...prev.entries.slice(0, prev.index + 1), next],
+      index: prev.index + 1,
+    }));
+    setSelectedPhase(null);
+  }, []);
+
+  const handleRefine = useCallback(
+    async (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      const instruction = refineText.trim();
+      if (!instruction) {
+        setError(t.refine.emptyInstruction);
+        return;
+      }
+      await requestTrend(
+        "/api/generate/refine",
+        {
+          current: result,
+          instruction,
+          prompt: result.generation_meta?.query ?? (query.trim() || undefined),
+          ...buildReferencePayload(),
+        },
+        (next) => {
+          pushRevision(next);
+          setRefineText("");
+        },
+      );
+    },
+    [buildReferencePayload, pushRevision, query, refineText, requestTrend, result, t],
+  );
+
+  const handleSelectPhase = useCallback((series: PhaseSeries, index: number) => {
+    setSelectedPhase((prev) =>
+      prev?.series === series && prev.index === index ? null : { series, index },
+    );
+  }, []);
+
+  const handlePhaseAction = useCallback(
+    (action: PhaseAction, series: PhaseSeries, index: number) =>
+      requestTrend(
+        "/api/generate/phase",
+        {
+          current: result,
+          mode: action,
+          series,
+          phaseIndex: index,
+          prompt: result.generation_meta?.query ?? (query.trim() || undefined),
+          ...buildReferencePayload(),
+          // Regeneration re-pins the phase to the uploaded series; a drill-down does not use it.
+          ...(action === "drilldown" ? { dataset: undefined } : {}),
+        },
+        pushRevision,
+      ),
+    [buildReferencePayload, pushRevision, query, requestTrend, result],
+  );
+
+  const handleOpenReference = useCallback((ref: number) => {
+    setActiveReference(ref);
+    document
+      .getElementById(`reference-source-${ref}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, []);
+
+  const handleUndo = useCallback(() => {
+    setHistory((prev) => ({ ...prev, index: Math.max(0, prev.index - 1) }));
+  }, []);
+
+  const handleRedo = useCallback(() => {
+    setHistory((prev) => ({
+      ...prev,
+      index: Math.min(prev.entries.length - 1, prev.index + 1),
+    }));
+  }, []);
+
+  const handleCancelGeneration = useCallback(() => {
+    generationAbortRef.current?.abort();
+  }, []);
+
+  useEffect(() => () => generationAbortRef.current?.abort(), []);
 
   const handleSubmit = useCallback(
     (event: FormEvent<HTMLFormElement>) => {
@@ -1166,10 +1855,14 @@ export default function Home() {
     [query, runGeneration],
   );
 
+  const handleForceRegenerate = useCallback(() => {
+    runGeneration(query || result.subject, { force: true });
+  }, [query, result.subject, runGeneration]);
+
   const handleDownloadImage = useCallback(async () => {
     const dataUrl = await chartHandleRef.current?.captureImage();
     if (!dataUrl) {
-      showHint("暂时无法导出，请稍后再试。");
+      showHint(t.hints.exportUnavailable);
       return;
     }
     const safeSubject = (result.subject || "trend").trim().replace(/\s+/g, "");
@@ -1179,22 +1872,22 @@ export default function Home() {
     document.body.appendChild(anchor);
     anchor.click();
     anchor.remove();
-    showHint("PNG 已导出");
-  }, [result.subject, showHint]);
+    showHint(t.hints.pngExported);
+  }, [result.subject, showHint, t]);
 
   const handleCopyJSON = useCallback(async () => {
     const formatted = JSON.stringify(result, null, 2);
     if (!navigator?.clipboard) {
-      showHint("浏览器不支持自动复制，请手动复制。");
+      showHint(t.hints.clipboardUnsupported);
       return;
     }
     try {
       await navigator.clipboard.writeText(formatted);
-      showHint("JSON 已复制");
+      showHint(t.hints.jsonCopied);
     } catch {
-      showHint("复制失败，请手动复制。");
+      showHint(t.hints.copyFailed);
     }
-  }, [result, showHint]);
+  }, [result, showHint, t]);
 
   const insights = useMemo(() => {
     const phases = displayPhases ?? [];
@@ -1210,7 +1903,7 @@ export default function Home() {
     const first = phases[0];
     const last = phases[phases.length - 1];
     const netChange = last.close - first.open;
-    const direction = netChange >= 0 ? "上行趋势" : "回落趋势";
+    const direction = netChange >= 0 ? t.insights.upTrend : t.insights.downTrend;
     const volatility =
       phases.reduce((sum, phase) => sum + (phase.high - phase.low), 0) /
       phases.length;
@@ -1222,7 +1915,7 @@ export default function Home() {
       volatility: Math.round(volatility),
       direction,
     };
-  }, [displayPhases]);
+  }, [displayPhases, t]);
 
   return (
     <div className="min-h-screen w-full px-4 py-12">
@@ -1230,26 +1923,51 @@ export default function Home() {
         <header className="glass-panel hero-panel">
           <div className="flex flex-col gap-8">
             <div className="hero-heading">
-              <h1>K线世界</h1>
-              <p className="hero-subtitle">一目了然 · Clear at a glance</p>
+              <h1>{t.heroTitle}</h1>
+              <p className="hero-subtitle">{t.heroSubtitle}</p>
+              <button
+                type="button"
+                className="text-button locale-switch"
+                onClick={handleToggleLocale}
+              >
+                {t.localeSwitch}
+              </button>
             </div>
 
             <form className="input-shell" onSubmit={handleSubmit}>
               <textarea
                 rows={2}
-                placeholder={`“${placeholder}”`}
+                placeholder={t.quote(placeholder)}
                 value={query}
                 onChange={(event) => setQuery(event.target.value)}
               />
-              <button
-                type="submit"
-                className="primary-button"
-                disabled={loading}
-              >
-                {loading ? "生成中..." : "生成走势"}
-              </button>
+              {loading ? (
+                <button
+                  type="button"
+                  className="primary-button"
+                  onClick={handleCancelGeneration}
+                >
+                  {t.cancel}
+                </button>
+              ) : (
+                <button type="submit" className="primary-button">
+                  {t.generate}
+                </button>
+              )}
             </form>
 
+            {quota && (
+              <div className="quota-note">
+                {t.quotaRemaining(quota.remaining, quota.limit)}
+              </div>
+            )}
+
+            {loading && progressText && (
+              <div className="generation-progress" aria-live="polite">
+                {progressText}
+              </div>
+            )}
+
             {error && (
               <div className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-600">
                 {error}
@@ -1258,12 +1976,12 @@ export default function Home() {
 
             <div className="evidence-panel">
               <div className="evidence-header">
-                <strong>上传 / 添加资料（可选）</strong>
-                <span>AI 会优先阅读这些内容，并将其作为走势锚点</span>
+                <strong>{t.evidence.title}</strong>
+                <span>{t.evidence.subtitle}</span>
               </div>
               <textarea
                 className="support-textarea"
-                placeholder="可粘贴采访、剧情梳理、论坛帖子、研报摘要……"
+                placeholder={t.evidence.supplementPlaceholder}
                 value={supplementText}
                 onChange={(event) => setSupplementText(event.target.value)}
               />
@@ -1282,10 +2000,13 @@ export default function Home() {
                       onClick={() => handleRemoveLink(index)}
                       disabled={referenceLinks.length === 1 && !referenceLinks[0]}
                     >
-                      移除
+                      {t.evidence.remove}
                     </button>
                     {link.trim() && (
-                      <span className="link-status">已作为分析依据</span>
+                      <ReferenceCheckStatus
+                        check={referenceChecks[`link:${link.trim()}`]}
+                        messages={t}
+                      />
                     )}
                   </div>
                 ))}
@@ -1294,7 +2015,7 @@ export default function Home() {
                   className="text-button"
                   onClick={handleAddLink}
                 >
-                  + 添加链接
+                  {t.evidence.addLink}
                 </button>
               </div>
               <label className="upload-tile">
@@ -1302,16 +2023,16 @@ export default function Home() {
                   type="file"
                   accept={ACCEPTED_FILE_TYPES}
                   multiple
-                  onChange={async (event) => {
-                    await handleFilesSelected(event.target.files);
+                  onChange={(event) => {
+                    handleFilesSelected(event.target.files);
                     event.target.value = "";
                   }}
                 />
                 <div>
-                  <strong>上传文件 / 拖拽到此</strong>
-                  <p>支持 PDF / DOCX / TXT / Markdown · 单个文件 ≤ 2MB</p>
+                  <strong>{t.evidence.uploadTitle}</strong>
+                  <p>{t.evidence.uploadHint}</p>
                 </div>
-                <span>已作为分析依据</span>
+                <span>{t.evidence.inUse}</span>
               </label>
               {documents.length > 0 && (
                 <div className="file-list">
@@ -1320,19 +2041,53 @@ export default function Home() {
                       <div>
                         <strong>{doc.name}</strong>
                         <small>
-                          {formatFileSize(doc.size)} · 已作为分析依据
+                          {formatFileSize(doc.size)} ·{" "}
+                          <ReferenceCheckStatus
+                            check={referenceChecks[`file:${doc.id}`]}
+                            messages={t}
+                          />
                         </small>
                       </div>
                       <button
                         type="button"
                         onClick={() => handleRemoveDocument(doc.id)}
                       >
-                        移除
+                        {t.evidence.remove}
                       </button>
                     </div>
                   ))}
                 </div>
               )}
+              <label className="upload-tile">
+                <input
+                  type="file"
+                  accept={ACCEPTED_DATASET_TYPES}
+                  onChange={(event) => {
+                    handleDatasetSelected(event.target.files);
+                    event.target.value = "";
+                  }}
+                />
+                <div>
+                  <strong>{t.evidence.datasetTitle}</strong>
+                  <p>{t.evidence.datasetHint}</p>
+                </div>
+                <span>{t.evidence.inUse}</span>
+              </label>
+              {dataset && (
+                <div className="file-list">
+                  <div className="file-pill">
+                    <div>
+                      <strong>{dataset.name}</strong>
+                      <small>
+                        {formatFileSize(dataset.size)} · {t.evidence.inUse}
+                      </small>
+                    </div>
+                    <button type="button" onClick={() => setDataset(null)}>
+                      {t.evidence.remove}
+                    </button>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
         </header>
@@ -1344,47 +2099,98 @@ export default function Home() {
                 {result.subject} · {result.metric}
               </h2>
               <div className="result-meta">
-                <span className="meta-pill">时间跨度：{result.timeframe}</span>
+                <span className="meta-pill">{t.meta.timeframe(result.timeframe)}</span>
                 <span className="meta-pill">
-                  阶段数：{result.phases.length} 段
+                  {t.meta.phaseCount(result.phases.length)}
                 </span>
                 {result.data_cutoff && (
-                  <span className="meta-pill muted">{result.data_cutoff}</span>
+                  <span
+                    className="meta-pill muted"
+                    title={
+                      result.data_cutoff_date
+                        ? t.meta.cutoffTitle(result.data_cutoff_date)
+                        : undefined
+                    }
+                  >
+                    {result.data_cutoff}
+                  </span>
+                )}
+                {result.generation_meta?.cache_hit && (
+                  <button
+                    type="button"
+                    className="meta-pill muted"
+                    onClick={handleForceRegenerate}
+                    disabled={loading}
+                    title={
+                      result.generation_meta.cached_at
+                        ? t.meta.cachedAt(
+                            new Date(result.generation_meta.cached_at).toLocaleString(locale),
+                          )
+                        : undefined
+                    }
+                  >
+                    {t.meta.fromCache}
+                  </button>
+                )}
+                {result.generation_meta?.dataset && (
+                  <span className="meta-pill muted">
+                    {t.meta.dataset(
+                      result.generation_meta.dataset.name,
+                      result.generation_meta.dataset.points,
+                    )}
+                  </span>
+                )}
+                {result.generation_meta?.drilldown_of && (
+                  <span className="meta-pill muted">
+                    {t.phase.drilledFrom(result.generation_meta.drilldown_of.label)}
+                  </span>
+                )}
+                {(result.generation_meta?.relabelled_zones?.length ?? 0) > 0 && (
+                  <span className="meta-pill muted">
+                    {t.meta.relabelled(result.generation_meta?.relabelled_zones?.length ?? 0)}
+                  </span>
                 )}
               </div>
             </div>
 
             <ChartPanel
               ref={chartHandleRef}
-              phases={displayPhases}
-              secondaryPhases={displaySecondary?.phases}
-              axes={{
-                primary: { meta: primaryAxisMeta, range: primaryRange },
-                secondary: displaySecondary
-                  ? { meta: secondaryAxisMeta, range: secondaryRange }
-                  : undefined,
-              }}
-              onHoverPhase={(primary, secondary, position) => {
-                if (!primary && !secondary) {
-                  setHoverState(null);
-                  return;
-                }
-                setHoverState({
-                  primary: primary ?? undefined,
-                  secondary: secondary ?? undefined,
-                  position,
-                });
+              lines={chartLines}
+              axes={
+                isStreamingPreview
+                  ? { primary: { range: { min: 0, max: 100 } } }
+                  : {
+                      primary: { meta: primaryAxisMeta, range: primaryRange },
+                      secondary: dualAxis
+                        ? { meta: secondaryAxisMeta, range: secondaryRange }
+                        : undefined,
+                    }
+              }
+              onHoverPhase={(phases, position) => {
+                setHoverState(phases.some(Boolean) ? { phases, position } : null);
               }}
               meta={chartMeta}
+              messages={t}
             />
 
             <div className="legend-summary">
-              {chartLegends.map((legend) => (
-                <div key={legend.label} className="legend-pill">
-                  <span style={{ background: legend.color }} />
-                  {legend.label}
-                </div>
-              ))}
+              {chartLegends.map((legend) => {
+                const hidden = hiddenLines.includes(legend.subject);
+                return (
+                  <button
+                    key={legend.label}
+                    type="button"
+                    className={`legend-pill ${hidden ? "legend-pill--hidden" : ""}`}
+                    aria-pressed={!hidden}
+                    title={hidden ? t.chart.showLine : t.chart.hideLine}
+                    disabled={!comparisonSeries.length}
+                    onClick={() => handleToggleLine(legend.subject)}
+                  >
+                    <span style={{ background: legend.color }} />
+                    {legend.label}
+                  </button>
+                );
+              })}
             </div>
 
             <div className={`analysis-basis-note reference-${referenceStatus}`}>
@@ -1392,22 +2198,44 @@ export default function Home() {
               {showReferenceSources && (
                 <ul className="reference-sources">
                   {referenceSources.map((entry, index) => (
-                    <li key={`${entry.source}-${index}`}>
+                    <li
+                      key={`${entry.source}-${index}`}
+                      id={`reference-source-${index + 1}`}
+                      className={
+                        activeReference === index + 1 ? "reference-source--active" : undefined
+                      }
+                    >
                       <strong>
-                        {entry.type === "text"
-                          ? "用户补充文本"
-                          : entry.type === "file"
-                            ? `文件 · ${entry.source}`
-                            : entry.source}
+                        <span className="source-ref-index">[{index + 1}]</span>
+                        {describeReferenceSource(entry, t)}
                       </strong>
+                      {(entry.published_at || entry.author || entry.title) && (
+                        <small>
+                          {[
+                            entry.published_at && t.references.publishedAt(entry.published_at),
+                            entry.author,
+                            entry.title && entry.source,
+                          ]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </small>
+                      )}
                       {entry.preview && <span>{entry.preview}</span>}
+                      {entry.chunks && entry.total_chunks && entry.total_chunks > 1 && (
+                        <small>
+                          {t.references.chunksUsed(
+                            entry.chunks.map((chunk) => chunk.index + 1),
+                            entry.total_chunks,
+                          )}
+                        </small>
+                      )}
                     </li>
                   ))}
                 </ul>
               )}
               {referenceErrors.length > 0 && (
                 <div className="reference-errors">
-                  <p>以下资料读取失败，已忽略：</p>
+                  <p>{t.references.errorsTitle}</p>
                   <ul>
                     {referenceErrors.map((error) => (
                       <li key={error}>{error}</li>
@@ -1422,8 +2250,8 @@ export default function Home() {
                 <div className="axis-summary-header">
                   <span className="axis-tag">
                     {result.chart_notes.mode === "dual_axis"
-                      ? "双纵轴"
-                      : "单纵轴"}
+                      ? t.axis.dual
+                      : t.axis.single}
                   </span>
                   {result.chart_notes.rationale && (
                     <p>{result.chart_notes.rationale}</p>
@@ -1431,48 +2259,68 @@ export default function Home() {
                 </div>
                 <div className="axis-summary-body">
                   <div>
-                    <strong>Y1（右）：</strong>
-                    <span>{describeAxis(primaryAxisMeta) || result.metric}</span>
+                    <strong>{t.axis.primary}</strong>
+                    <span>{describeAxis(t, primaryAxisMeta) || result.metric}</span>
                   </div>
                   {secondaryAxisMeta && (
                     <div>
-                      <strong>Y2（左）：</strong>
-                      <span>{describeAxis(secondaryAxisMeta)}</span>
+                      <strong>{t.axis.secondary}</strong>
+                      <span>{describeAxis(t, secondaryAxisMeta)}</span>
                     </div>
                   )}
                 </div>
               </div>
             )}
 
-            {displaySecondary && (
+            {comparisonSeries.length > 0 && (
               <p className="relationship-note">
-                {result.relation_summary ??
-                  "双线对照模式呈现双方在同一时间线上的牵引关系。"}
+                {result.relation_summary ?? t.relationFallback}
               </p>
             )}
 
+            {(result.generation_meta?.swapped_series ||
+              (result.consistency_warnings?.length ?? 0) > 0) && (
+              <div className="consistency-warnings">
+                {result.generation_meta?.swapped_series && (
+                  <p>{t.swappedSeries}</p>
+                )}
+                {(result.consistency_warnings?.length ?? 0) > 0 && (
+                  <>
+                    <p>{t.consistencyWarnings}</p>
+                    <ul>
+                      {result.consistency_warnings?.map((warning) => (
+                        <li key={`${warning.path}-${warning.message}`}>
+                          {warning.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </div>
+            )}
+
             {result.source_digest && (
               <div className="analysis-block source-digest">
-                <strong>资料摘要</strong>
+                <strong>{t.sections.sourceDigest}</strong>
                 <p>{result.source_digest}</p>
               </div>
             )}
 
             {result.analysis_modules?.chart_explanation && (
               <div className="analysis-block">
-                <strong>图表说明</strong>
+                <strong>{t.sections.chartExplanation}</strong>
                 <p>{result.analysis_modules.chart_explanation}</p>
               </div>
             )}
 
-            <div className="action-bar" aria-label="导出工具">
+            <div className="action-bar" aria-label={t.actions.toolbar}>
               <button
                 type="button"
                 className="pill-button"
                 onClick={handleDownloadImage}
                 disabled={loading}
               >
-                导出 PNG
+                {t.actions.exportPng}
               </button>
               <button
                 type="button"
@@ -1480,36 +2328,36 @@ export default function Home() {
                 onClick={handleCopyJSON}
                 disabled={loading}
               >
-                复制 JSON
+                {t.actions.copyJson}
               </button>
             </div>
 
             {insights && (
               <div className="insights-grid" aria-live="polite">
                 <article className="insight-card">
-                  <span className="insight-label">叙事峰值</span>
+                  <span className="insight-label">{t.insights.peak}</span>
                   <strong>{insights.peakPhase.label}</strong>
                   <p>
                     {insights.peakPhase.start_year}-{insights.peakPhase.end_year}
-                    · 最高 {insights.peakPhase.high}
+                    · {t.insights.peakValue(insights.peakPhase.high)}
                   </p>
                 </article>
                 <article className="insight-card">
-                  <span className="insight-label">情绪谷底</span>
+                  <span className="insight-label">{t.insights.trough}</span>
                   <strong>{insights.basePhase.label}</strong>
                   <p>
                     {insights.basePhase.start_year}-{insights.basePhase.end_year}
-                    · 最低 {insights.basePhase.low}
+                    · {t.insights.troughValue(insights.basePhase.low)}
                   </p>
                 </article>
                 <article className="insight-card">
-                  <span className="insight-label">整体势能</span>
+                  <span className="insight-label">{t.insights.momentum}</span>
                   <strong>
                     {insights.direction} ·{" "}
                     {insights.netChange >= 0 ? "+" : ""}
                     {insights.netChange}
                   </strong>
-                  <p>平均波动幅度约 {insights.volatility} 点</p>
+                  <p>{t.insights.volatility(insights.volatility)}</p>
                 </article>
               </div>
             )}
@@ -1519,9 +2367,17 @@ export default function Home() {
                 {eventHighlights.map((event) => (
                   <article key={event.time + event.description} className="event-card">
                     <span className="event-time">{event.time}</span>
-                    <p>{event.description}</p>
+                    <p>
+                      {event.description}
+                      <SourceRefMarkers
+                        refs={event.source_refs}
+                        entries={citableSources}
+                        messages={t}
+                        onOpen={handleOpenReference}
+                      />
+                    </p>
                     <small>
-                      影响：{event.impact}
+                      {t.events.impact(describeImpact(event.impact, t))}
                       {event.phaseLabel ? ` · ${event.phaseLabel}` : ""}
                     </small>
                   </article>
@@ -1531,141 +2387,191 @@ export default function Home() {
 
             {result.analysis_modules?.trend_observation && (
               <div className="analysis-block">
-                <strong>走势观察</strong>
+                <strong>{t.sections.trendObservation}</strong>
                 <p>{result.analysis_modules.trend_observation}</p>
               </div>
             )}
             {result.analysis_modules?.relationship_judgment && (
               <div className="analysis-block">
-                <strong>关系判断</strong>
+                <strong>{t.sections.relationshipJudgment}</strong>
                 <p>{result.analysis_modules.relationship_judgment}</p>
               </div>
             )}
 
             <div className="phase-grid">
-              {displayPhases.map((phase) => (
-                <article
+              {displayPhases.map((phase, index) => (
+                <PhaseCard
                   key={phase.label}
-                  className={`phase-card ${
-                    isProjectionPhase(phase) ? "phase-card--projection" : ""
-                  }`}
-                >
-                  <div className="phase-head">
-                    <h4>
-                      {phase.start_year} - {phase.end_year}
-                    </h4>
-                    <span className="zone-pill">{resolveZoneLabel(phase)}</span>
-                  </div>
-                  <p>{phase.label}</p>
-                  <p className="mt-2 text-xs text-slate-400">
-                    强度范围：{phase.low} - {phase.high} · 收盘 {phase.close}
-                  </p>
-                </article>
+                  phase={phase}
+                  selected={
+                    selectedPhase?.series === "primary" && selectedPhase.index === index
+                  }
+                  disabled={loading}
+                  messages={t}
+                  onSelect={() => handleSelectPhase("primary", index)}
+                  onAction={(action) => handlePhaseAction(action, "primary", index)}
+                />
               ))}
             </div>
-            {displaySecondary && (
-              <>
+            {comparisonSeries.map((line, seriesIndex) => (
+              <Fragment key={`${seriesIndex}-${line.subject}`}>
                 <p className="series-label">
-                  {displaySecondary.subject} · {displaySecondary.metric}
+                  <span
+                    className="series-swatch"
+                    style={{ background: chartLegends[seriesIndex + 1]?.color }}
+                  />
+                  {line.subject} · {line.metric}
                 </p>
                 <div className="phase-grid">
-                  {displaySecondary.phases.map((phase) => (
-                    <article
-                      key={`${displaySecondary.subject}-${phase.label}`}
-                      className={`phase-card ${
-                        isProjectionPhase(phase) ? "phase-card--projection" : ""
-                      }`}
-                    >
-                      <div className="phase-head">
-                        <h4>
-                          {phase.start_year} - {phase.end_year}
-                        </h4>
-                        <span className="zone-pill">{resolveZoneLabel(phase)}</span>
-                      </div>
-                      <p>{phase.label}</p>
-                      <p className="mt-2 text-xs text-slate-400">
-                        强度范围：{phase.low} - {phase.high} · 收盘 {phase.close}
-                      </p>
-                    </article>
+                  {line.phases.map((phase, index) => (
+                    <PhaseCard
+                      key={`${line.subject}-${phase.label}`}
+                      phase={phase}
+                      selected={
+                        selectedPhase?.series === seriesIndex &&
+                        selectedPhase.index === index
+                      }
+                      disabled={loading}
+                      messages={t}
+                      onSelect={() => handleSelectPhase(seriesIndex, index)}
+                      onAction={(action) => handlePhaseAction(action, seriesIndex, index)}
+                    />
                   ))}
                 </div>
-              </>
-            )}
+              </Fragment>
+            ))}
 
-            <p className="disclaimer">
-              本网站展示的是对走势的理解，而非精确数据或事实测量。
-            </p>
+            <p className="disclaimer">{t.disclaimer}</p>
 
             {analysisText && (
               <div className="analysis-block">
-                <strong>走势解读</strong>
+                <strong>{t.sections.overallAnalysis}</strong>
                 <p>{analysisText}</p>
               </div>
             )}
 
             {result.prediction_commentary && (
               <div className="analysis-block prediction">
-                <strong>推演判断（非事实）</strong>
+                <strong>{t.sections.prediction}</strong>
                 <p>{result.prediction_commentary}</p>
-                <small>以下为基于当前信息的推演判断，不构成事实描述。</small>
+                <small>{t.sections.predictionNote}</small>
               </div>
             )}
+
+            <div className="refine-panel">
+              <div className="refine-header">
+                <strong>{t.refine.title}</strong>
+                <div className="refine-history">
+                  {history.entries.length > 1 && (
+                    <span>
+                      {t.refine.revision(history.index + 1, history.entries.length)}
+                    </span>
+                  )}
+                  <button
+                    type="button"
+                    className="pill-button"
+                    onClick={handleUndo}
+                    disabled={loading || history.index === 0}
+                  >
+                    {t.refine.undo}
+                  </button>
+                  <button
+                    type="button"
+                    className="pill-button"
+                    onClick={handleRedo}
+                    disabled={loading || history.index >= history.entries.length - 1}
+                  >
+                    {t.refine.redo}
+                  </button>
+                </div>
+              </div>
+              {result.generation_meta?.instruction && (
+                <p className="refine-note">
+                  {t.refine.lastInstruction(result.generation_meta.instruction)}
+                </p>
+              )}
+              {result.generation_meta?.regenerated_phase && (
+                <p className="refine-note">
+                  {t.phase.regenerated(
+                    resolvePhaseLabel(result, result.generation_meta.regenerated_phase),
+                  )}
+                </p>
+              )}
+              <form className="refine-form" onSubmit={handleRefine}>
+                <input
+                  value={refineText}
+                  onChange={(event) => setRefineText(event.target.value)}
+                  placeholder={t.refine.placeholder}
+                  maxLength={500}
+                  disabled={loading}
+                />
+                <button
+                  type="submit"
+                  className="pill-button"
+                  disabled={loading || !refineText.trim()}
+                >
+                  {t.refine.submit}
+                </button>
+              </form>
+            </div>
           </div>
         </section>
 
         <footer className="footer">
-          <strong>另眼观世界 · To see the world from a different perspective</strong>
+          <strong>{t.footerTagline}</strong>
           <small>Developed by Twitter @linghuchong</small>
         </footer>
       </div>
-      <div className="corner-note">
-        本网站展示的是对走势的理解，而非精确数据或事实测量。
-      </div>
+      <div className="corner-note">{t.disclaimer}</div>
       {actionHint && <div className="action-toast">{actionHint}</div>}
-      {hoverState && (
+      {hoveredLines.length > 0 && (
         <div
           className="chart-tooltip"
           style={{
-            left: hoverState.position ? hoverState.position.x + 24 : 0,
-            top: hoverState.position ? hoverState.position.y + 120 : 0,
+            left: hoverState?.position ? hoverState.position.x + 24 : 0,
+            top: hoverState?.position ? hoverState.position.y + 120 : 0,
           }}
         >
-          <strong>{formatPhaseRange(hoverState.primary ?? hoverState.secondary)}</strong>
-          {hoverState.primary && (
-            <div className="tooltip-line tooltip-primary">
-              <div className="tooltip-line-title">🔴 {result.subject}</div>
-              <p>{summarizePhaseEvent(hoverState.primary)}</p>
-              <span>
-                强度：{hoverState.primary.low} - {hoverState.primary.high} · 收盘{" "}
-                {hoverState.primary.close}
-              </span>
-              <span className="tooltip-zone">
-                区间标记：{resolveZoneLabel(hoverState.primary)}
-              </span>
-            </div>
-          )}
-          {displaySecondary && hoverState.secondary && (
-            <div className="tooltip-line tooltip-secondary">
+          <strong>{formatPhaseRange(hoveredLines[0].phase)}</strong>
+          {hoveredLines.map(({ subject, color, phase }) => (
+            <div
+              key={subject}
+              className="tooltip-line"
+              style={{ borderLeftColor: color }}
+            >
               <div className="tooltip-line-title">
-                🟢 {displaySecondary.subject}
+                <span className="series-swatch" style={{ background: color }} />
+                {subject}
               </div>
-              <p>{summarizePhaseEvent(hoverState.secondary)}</p>
-              <span>
-                强度：{hoverState.secondary.low} - {hoverState.secondary.high} · 收盘{" "}
-                {hoverState.secondary.close}
-              </span>
+              <p>
+                {summarizePhaseEvent(phase)}
+                <SourceRefMarkers
+                  refs={phase.key_events?.[0]?.source_refs}
+                  entries={citableSources}
+                  messages={t}
+                />
+              </p>
+              {(phase.key_events?.[0]?.source_refs ?? [])
+                .filter((ref) => citableSources[ref - 1])
+                .map((ref) => (
+                  <span key={ref} className="tooltip-source">
+                    [{ref}] {describeReferenceSource(citableSources[ref - 1], t)}
+                    {citableSources[ref - 1].preview
+                      ? ` · ${citableSources[ref - 1].preview}`
+                      : ""}
+                  </span>
+                ))}
+              <span>{t.tooltip.intensity(phase.low, phase.high, phase.close)}</span>
               <span className="tooltip-zone">
-                区间标记：{resolveZoneLabel(hoverState.secondary)}
+                {t.tooltip.zone(t.zones[resolveZone(phase)])}
               </span>
             </div>
-          )}
-          {(hoverState.primary?.relation_note ||
-            hoverState.secondary?.relation_note ||
+          ))}
+          {(hoveredLines.some(({ phase }) => phase.relation_note) ||
             result.relation_summary) && (
             <div className="tooltip-relation">
-              🧠 关系解读：
-              {hoverState.primary?.relation_note ||
-                hoverState.secondary?.relation_note ||
+              {t.tooltip.relation}
+              {hoveredLines.find(({ phase }) => phase.relation_note)?.phase.relation_note ??
                 result.relation_summary}
             </div>
           )}
@@ -0,0 +1,42 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { CacheEntry, CacheStore } from "./types";
+
+/**
+ * Stores one JSON file per key under `directory`. Survives restarts and can be
+ * shared by several server processes on the same disk.
+ */
+export const createFileCacheStore = <T>({
+  directory,
+}: {
+  directory: string;
+}): CacheStore<T> => {
+  const fileFor = (key: string) => path.join(directory, `${key}.json`);
+
+  const get = async (key: string) => {
+    try {
+      const raw = await readFile(fileFor(key), "utf8");
+      const entry = JSON.parse(raw) as CacheEntry<T>;
+      if (entry.expiresAt <= Date.now()) {
+        await rm(fileFor(key), { force: true });
+        return null;
+      }
+      return entry;
+    } catch {
+      return null;
+    }
+  };
+
+  const set = async (key: string, value: T, ttlMs: number) => {
+    const now = Date.now();
+    const entry: CacheEntry<T> = { value, storedAt: now, expiresAt: now + ttlMs };
+    try {
+      await mkdir(directory, { recursive: true });
+      await writeFile(fileFor(key), JSON.stringify(entry), "utf8");
+    } catch (error) {
+      console.error("Failed to write cache entry", key, error);
+    }
+  };
+
+  return { get, set };
+};
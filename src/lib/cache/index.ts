@@ -0,0 +1,78 @@
+import { createHash } from "node:crypto";
+import { createFileCacheStore } from "./file";
+import { createMemoryCacheStore } from "./memory";
+import { CacheStore } from "./types";
+
+export * from "./types";
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const DEFAULT_MAX_ENTRIES = 200;
+const DEFAULT_CACHE_DIR = ".cache/generate";
+
+type CacheEnv = Record<string, string | undefined>;
+
+export type ResultCache<T> = {
+  store: CacheStore<T>;
+  ttlMs: number;
+};
+
+const parsePositiveInt = (value: string | undefined, fallback: number) => {
+  const parsed = value === undefined ? NaN : Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const sha256 = (value: string) =>
+  createHash("sha256").update(value).digest("hex");
+
+export const normalizePromptForCache = (prompt: string) =>
+  prompt.normalize("NFKC").replace(/\s+/g, " ").trim().toLowerCase();
+
+/**
+ * Builds a cache key from everything that changes the model output: the
+ * normalized prompt, the ingested reference contents, and the model / prompt
+ * version in use.
+ */
+export const buildCacheKey = (parts: {
+  prompt: string;
+  references: { type: string; source: string; content: string }[];
+  version: string;
+}) => {
+  const referenceDigest = sha256(
+    JSON.stringify(
+      parts.references.map(({ type, source, content }) => [type, source, content]),
+    ),
+  );
+  return sha256(
+    [normalizePromptForCache(parts.prompt), referenceDigest, parts.version].join("\n"),
+  );
+};
+
+/**
+ * - `RESULT_CACHE`: `memory`（默认）/ `file` / `off`
+ * - `RESULT_CACHE_TTL_SECONDS`: 过期时间，默认 24 小时
+ * - `RESULT_CACHE_MAX_ENTRIES`: 内存 LRU 上限
+ * - `RESULT_CACHE_DIR`: 文件缓存目录
+ */
+export const createResultCacheFromEnv = <T>(
+  env: CacheEnv = process.env,
+): ResultCache<T> | null => {
+  const mode = (env.RESULT_CACHE ?? "memory").trim().toLowerCase();
+  const ttlMs = parsePositiveInt(env.RESULT_CACHE_TTL_SECONDS, DEFAULT_TTL_SECONDS) * 1000;
+  if (mode === "off" || mode === "none") {
+    return null;
+  }
+  if (mode === "file") {
+    return {
+      store: createFileCacheStore<T>({
+        directory: env.RESULT_CACHE_DIR || DEFAULT_CACHE_DIR,
+      }),
+      ttlMs,
+    };
+  }
+  return {
+    store: createMemoryCacheStore<T>({
+      maxEntries: parsePositiveInt(env.RESULT_CACHE_MAX_ENTRIES, DEFAULT_MAX_ENTRIES),
+    }),
+    ttlMs,
+  };
+};
@@ -0,0 +1,41 @@
+import { CacheEntry, CacheStore } from "./types";
+
+/**
+ * In-process LRU store. A `Map` keeps insertion order, so re-inserting on every
+ * hit moves the entry to the back and the first key is always the eldest.
+ */
+export const createMemoryCacheStore = <T>({
+  maxEntries,
+}: {
+  maxEntries: number;
+}): CacheStore<T> => {
+  const entries = new Map<string, CacheEntry<T>>();
+
+  const get = async (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return null;
+    }
+    entries.set(key, entry);
+    return entry;
+  };
+
+  const set = async (key: string, value: T, ttlMs: number) => {
+    const now = Date.now();
+    entries.delete(key);
+    entries.set(key, { value, storedAt: now, expiresAt: now + ttlMs });
+    while (entries.size > maxEntries) {
+      const eldest = entries.keys().next().value;
+      if (eldest === undefined) {
+        break;
+      }
+      entries.delete(eldest);
+    }
+  };
+
+  return { get, set };
+};
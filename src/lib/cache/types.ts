@@ -0,0 +1,15 @@
+export type CacheEntry<T> = {
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+};
+
+/**
+ * Minimal async key/value store with per-entry TTL. Implementations must never
+ * throw on a miss; failures should degrade to a miss so a broken cache cannot
+ * break generation.
+ */
+export type CacheStore<T> = {
+  get: (key: string) => Promise<CacheEntry<T> | null>;
+  set: (key: string, value: T, ttlMs: number) => Promise<void>;
+};
@@ -0,0 +1,33 @@
+import { RequestAbortedError } from "./deadline";
+
+/**
+ * Runs `task` over `items` with at most `limit` in flight, starting them in
+ * input order. Results keep input order whatever order tasks finish in;
+ * `onSettled` fires as each one finishes. Once `signal` aborts no further
+ * items are started and, after the running ones settle, `RequestAbortedError`
+ * is thrown, so the result never has holes.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+  {
+    signal,
+    onSettled,
+  }: { signal?: AbortSignal; onSettled?: (result: R, index: number) => void } = {},
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+      onSettled?.(results[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, lane));
+  if (next < items.length) {
+    throw new RequestAbortedError();
+  }
+  return results;
+};
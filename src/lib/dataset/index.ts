@@ -0,0 +1,344 @@
+import type { DatasetBrief } from "../prompts/types";
+import type { UploadedDocument } from "../references";
+import { DataPoint, DatasetSegment, segmentSeries } from "./segment";
+
+export * from "./segment";
+
+export type SegmentedDataset = {
+  name: string;
+  /** Column header or `metric` field, e.g. `搜索指数`. */
+  metric?: string;
+  unit?: string;
+  points: DataPoint[];
+  segments: DatasetSegment[];
+};
+
+export class DatasetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DatasetError";
+  }
+}
+
+const MAX_DATASET_BYTES = 2 * 1024 * 1024;
+const MAX_POINTS = 10000;
+const MIN_SEGMENTS = 5;
+const MAX_SEGMENTS = 10;
+/** Every phase needs at least one step, so 5 phases need 6 points. */
+const MIN_POINTS = MIN_SEGMENTS + 1;
+
+const TIME_KEYS = ["time", "date", "period", "label", "year", "month", "quarter", "x"];
+const VALUE_KEYS = ["value", "y", "close", "count", "amount", "total"];
+
+type Column = { metric?: string; unit?: string };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+/** Accepts `1,234`, `12.5%` and padded cells; anything else is NaN. */
+const parseNumber = (value: unknown) => {
+  if (typeof value === "number") {
+    return value;
+  }
+  if (typeof value !== "string") {
+    return NaN;
+  }
+  const cleaned = value.trim().replace(/[,_\s]/g, "").replace(/%$/, "");
+  return cleaned ? Number(cleaned) : NaN;
+};
+
+/** Plain four-digit years stay numbers, matching how the model writes them. */
+const parseTime = (value: unknown) => {
+  const text = String(value ?? "").trim();
+  return /^(?:19|20)\d{2}$/.test(text) ? Number(text) : text;
+};
+
+/** Splits `销量（万台）` / `Sales (USD)` into the name and the unit. */
+const parseHeader = (header?: string): Column => {
+  const text = header?.trim();
+  if (!text) {
+    return {};
+  }
+  const match = text.match(/^(.*?)\s*[（(]([^（）()]+)[）)]\s*$/);
+  return match ? { metric: match[1] || undefined, unit: match[2] } : { metric: text };
+};
+
+const splitCsvLine = (line: string, delimiter: string) => {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (char === '"') {
+      if (quoted && line[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells.map((value) => value.trim());
+};
+
+/**
+ * The first column is the time label; the value is the first later column
+ * that is numeric in most rows. A header row is detected by its value cell
+ * not being a number.
+ */
+const parseCsv = (text: string): Column & { points: DataPoint[] } => {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  if (!lines.length) {
+    throw new DatasetError("数据文件为空。");
+  }
+  const delimiter = ["\t", ";", ","].reduce((best, candidate) =>
+    lines[0].split(candidate).length > lines[0].split(best).length ? candidate : best,
+  );
+  const rows = lines.map((line) => splitCsvLine(line, delimiter));
+  const width = Math.max(...rows.map((row) => row.length));
+  if (width < 2) {
+    throw new DatasetError("CSV 至少需要两列：时间和数值。");
+  }
+  let valueColumn = -1;
+  for (let column = 1; column < width && valueColumn < 0; column++) {
+    const numeric = rows.filter((row) => Number.isFinite(parseNumber(row[column]))).length;
+    if (numeric >= (rows.length - 1) / 2 && numeric > 0) {
+      valueColumn = column;
+    }
+  }
+  if (valueColumn < 0) {
+    throw new DatasetError("CSV 中没有找到数值列。");
+  }
+  const hasHeader = !Number.isFinite(parseNumber(rows[0][valueColumn]));
+  const points = rows
+    .slice(hasHeader ? 1 : 0)
+    .map((row) => ({ time: parseTime(row[0]), value: parseNumber(row[valueColumn]) }))
+    .filter((point) => point.time !== "" && Number.isFinite(point.value));
+  return { ...(hasHeader ? parseHeader(rows[0][valueColumn]) : {}), points };
+};
+
+const toJsonPoint = (entry: unknown): DataPoint | null => {
+  if (Array.isArray(entry) && entry.length >= 2) {
+    return { time: parseTime(entry[0]), value: parseNumber(entry[1]) };
+  }
+  if (!isRecord(entry)) {
+    return null;
+  }
+  const keys = Object.keys(entry);
+  const timeKey =
+    keys.find((key) => TIME_KEYS.includes(key.toLowerCase())) ??
+    keys.find((key) => typeof entry[key] === "string");
+  const valueKey =
+    keys.find((key) => VALUE_KEYS.includes(key.toLowerCase())) ??
+    keys.find((key) => key !== timeKey && Number.isFinite(parseNumber(entry[key])));
+  return timeKey && valueKey
+    ? { time: parseTime(entry[timeKey]), value: parseNumber(entry[valueKey]) }
+    : null;
+};
+
+/**
+ * Accepts `[{ "date": "2024-01", "value": 12 }]`, `[["2024-01", 12]]`, or
+ * an object wrapping either under `data` / `points` with optional `metric`
+ * and `unit`.
+ */
+const parseJson = (text: string): Column & { points: DataPoint[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new DatasetError("JSON 数据格式错误。");
+  }
+  const wrapper = isRecord(parsed) ? parsed : undefined;
+  const entries = Array.isArray(parsed)
+    ? parsed
+    : wrapper && Array.isArray(wrapper.data)
+      ? wrapper.data
+      : wrapper && Array.isArray(wrapper.points)
+        ? wrapper.points
+        : null;
+  if (!entries) {
+    throw new DatasetError("JSON 数据需要是数组，或包含 data / points 数组的对象。");
+  }
+  const points = entries
+    .map(toJsonPoint)
+    .filter(
+      (point): point is DataPoint =>
+        point !== null && point.time !== "" && Number.isFinite(point.value),
+    );
+  const label = wrapper?.metric ?? wrapper?.name;
+  return {
+    ...parseHeader(typeof label === "string" ? label : undefined),
+    ...(typeof wrapper?.unit === "string" ? { unit: wrapper.unit } : {}),
+    points,
+  };
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type TimeKey = {
+  /** Labels are only compared with labels of the same kind. */
+  kind: "year" | "half" | "quarter" | "month" | "week" | "date" | "datetime";
+  /** Start of the period in UTC milliseconds. */
+  at: number;
+};
+
+/** Monday of ISO week `week` of `year`. */
+const isoWeekStart = (year: number, week: number) => {
+  const jan4 = Date.UTC(year, 0, 4);
+  const weekday = (new Date(jan4).getUTCDay() + 6) % 7;
+  return jan4 - weekday * DAY_MS + (week - 1) * 7 * DAY_MS;
+};
+
+/**
+ * Position of a label that is a calendar period from end to end: `2024`,
+ * `2021H1`, `2024Q2`, `2024-03` / `2024年3月`, `2024-W05`, `2024/3/5` and
+ * `2024-03-05 09:30` (ISO `T…Z` too). Anything else, including a label with
+ * extra text, is null.
+ */
+const timeKey = (time: string | number): TimeKey | null => {
+  const text = String(time).trim();
+  const year = text.match(/^(\d{4})$/);
+  if (year) {
+    return { kind: "year", at: Date.UTC(Number(year[1]), 0, 1) };
+  }
+  const half = text.match(/^(\d{4})\s*-?\s*H([12])$/i);
+  if (half) {
+    return { kind: "half", at: Date.UTC(Number(half[1]), (Number(half[2]) - 1) * 6, 1) };
+  }
+  const quarter = text.match(/^(\d{4})\s*-?\s*Q([1-4])$/i);
+  if (quarter) {
+    return {
+      kind: "quarter",
+      at: Date.UTC(Number(quarter[1]), (Number(quarter[2]) - 1) * 3, 1),
+    };
+  }
+  const week = text.match(/^(\d{4})\s*-?\s*W(\d{1,2})$/i);
+  if (week) {
+    const index = Number(week[2]);
+    return index >= 1 && index <= 53
+      ? { kind: "week", at: isoWeekStart(Number(week[1]), index) }
+      : null;
+  }
+  const month = text.match(/^(\d{4})\s*[-/.年]\s*(\d{1,2})\s*月?$/);
+  if (month) {
+    const index = Number(month[2]);
+    return index >= 1 && index <= 12
+      ? { kind: "month", at: Date.UTC(Number(month[1]), index - 1, 1) }
+      : null;
+  }
+  const date = text.match(
+    /^(\d{4})\s*[-/.年]\s*(\d{1,2})\s*[-/.月]\s*(\d{1,2})\s*日?(?:(?:\s+|T)(\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?Z?)?$/,
+  );
+  if (!date) {
+    return null;
+  }
+  const [, y, m, d, hours, minutes, seconds] = date.map(Number);
+  const at = Date.UTC(y, m - 1, d, hours || 0, minutes || 0, seconds || 0);
+  const parsed = new Date(at);
+  // Rejects 2024-02-31 and 25:00 rather than letting Date roll them over.
+  if (
+    parsed.getUTCMonth() !== m - 1 ||
+    parsed.getUTCDate() !== d ||
+    (date[4] !== undefined && (parsed.getUTCHours() !== hours || minutes > 59))
+  ) {
+    return null;
+  }
+  return { kind: date[4] === undefined ? "date" : "datetime", at };
+};
+
+/**
+ * Puts calendar labels in time order (exports often list the newest row
+ * first) and rejects a period that appears twice. That needs every label to
+ * parse whole and at the same granularity; otherwise (第3季, mixed formats)
+ * the file order is kept as is.
+ */
+const orderPoints = (points: DataPoint[]) => {
+  const keys = points.map((point) => timeKey(point.time));
+  const kind = keys[0]?.kind;
+  if (!kind || keys.some((key) => key?.kind !== kind)) {
+    return points;
+  }
+  const ordered = points
+    .map((point, index) => ({ point, at: (keys[index] as TimeKey).at }))
+    .sort((a, b) => a.at - b.at);
+  ordered.forEach(({ point, at }, index) => {
+    if (index > 0 && ordered[index - 1].at === at) {
+      throw new DatasetError(`时间列存在重复值：${point.time}，请合并同一时间的数据后再上传。`);
+    }
+  });
+  return ordered.map(({ point }) => point);
+};
+
+const decodeContent = (upload: UploadedDocument) => {
+  if (Buffer.isBuffer(upload.data)) {
+    return upload.data;
+  }
+  const content = upload.content ?? "";
+  const base64 = content.includes(",") ? (content.split(",").pop() ?? "") : content;
+  return Buffer.from(base64, "base64");
+};
+
+const isJson = (upload: UploadedDocument) =>
+  (upload.type ?? "").includes("json") || upload.name.toLowerCase().endsWith(".json");
+
+/**
+ * Parses an uploaded CSV / JSON series (base64 or multipart bytes, like
+ * other uploads) and cuts it into phases. Throws `DatasetError` with a user-facing message.
+ */
+export const prepareDataset = (upload: UploadedDocument): SegmentedDataset => {
+  if (
+    !upload ||
+    typeof upload.name !== "string" ||
+    (typeof upload.content !== "string" && !Buffer.isBuffer(upload.data))
+  ) {
+    throw new DatasetError("数据文件格式错误。");
+  }
+  const buffer = decodeContent(upload);
+  if (!buffer.byteLength) {
+    throw new DatasetError(`数据文件为空：${upload.name}`);
+  }
+  if (buffer.byteLength > MAX_DATASET_BYTES) {
+    throw new DatasetError(`数据文件超过 2MB 限制：${upload.name}`);
+  }
+  const text = buffer.toString("utf8").replace(/^\uFEFF/, "");
+  const { points: parsed, ...column } = isJson(upload) ? parseJson(text) : parseCsv(text);
+  const points = orderPoints(parsed);
+  if (points.length < MIN_POINTS) {
+    throw new DatasetError(
+      `有效数据点只有 ${points.length} 个，至少需要 ${MIN_POINTS} 个才能切分阶段。`,
+    );
+  }
+  if (points.length > MAX_POINTS) {
+    throw new DatasetError(`数据点超过 ${MAX_POINTS} 个，请先按周或月汇总。`);
+  }
+  return {
+    name: upload.name,
+    ...column,
+    points,
+    segments: segmentSeries(points, {
+      minSegments: MIN_SEGMENTS,
+      maxSegments: MAX_SEGMENTS,
+    }),
+  };
+};
+
+export const toDatasetBrief = (dataset: SegmentedDataset): DatasetBrief => ({
+  name: dataset.name,
+  metric: dataset.metric,
+  unit: dataset.unit,
+  points: dataset.points.length,
+  phases: dataset.segments.map(({ start_year, end_year, open, high, low, close }) => ({
+    start: start_year,
+    end: end_year,
+    open,
+    high,
+    low,
+    close,
+  })),
+});
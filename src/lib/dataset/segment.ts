@@ -0,0 +1,165 @@
+export type DataPoint = {
+  time: string | number;
+  value: number;
+};
+
+export type DatasetSegment = {
+  start_year: string | number;
+  end_year: string | number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  /** Number of data points in the segment, boundaries included. */
+  points: number;
+};
+
+/** Above this many points the search runs on bucket means instead. */
+const MAX_SEARCH_POINTS = 240;
+/** Penalty per segment (slope, intercept and the changepoint itself). */
+const PARAMS_PER_SEGMENT = 3;
+
+/**
+ * Least-squares cost of fitting one straight line through `values[start..end]`
+ * (both ends included), answered in O(1) from prefix sums. Values are
+ * standardised first so large real-world units do not lose precision.
+ */
+const createLineCost = (raw: number[]) => {
+  const mean = raw.reduce((sum, value) => sum + value, 0) / raw.length;
+  const spread =
+    Math.sqrt(raw.reduce((sum, value) => sum + (value - mean) ** 2, 0) / raw.length) || 1;
+  const values = raw.map((value) => (value - mean) / spread);
+  const size = values.length + 1;
+  const sx = new Float64Array(size);
+  const sxx = new Float64Array(size);
+  const sy = new Float64Array(size);
+  const syy = new Float64Array(size);
+  const sxy = new Float64Array(size);
+  values.forEach((y, x) => {
+    sx[x + 1] = sx[x] + x;
+    sxx[x + 1] = sxx[x] + x * x;
+    sy[x + 1] = sy[x] + y;
+    syy[x + 1] = syy[x] + y * y;
+    sxy[x + 1] = sxy[x] + x * y;
+  });
+  return (start: number, end: number) => {
+    const count = end - start + 1;
+    const x = sx[end + 1] - sx[start];
+    const y = sy[end + 1] - sy[start];
+    const varX = sxx[end + 1] - sxx[start] - (x * x) / count;
+    const varY = syy[end + 1] - syy[start] - (y * y) / count;
+    const covXY = sxy[end + 1] - sxy[start] - (x * y) / count;
+    return Math.max(0, varX > 0 ? varY - (covXY * covXY) / varX : varY);
+  };
+};
+
+/**
+ * Optimal partition of `values` into `k` consecutive pieces for every `k` up
+ * to `maxSegments`. Neighbouring pieces share their boundary point, so each
+ * candle opens where the previous one closed. A tiny length term breaks ties
+ * towards even pieces when the data is (nearly) a straight line.
+ */
+const partition = (values: number[], maxSegments: number) => {
+  const cost = createLineCost(values);
+  const last = values.length - 1;
+  const tieBreak = (cost(0, last) + 1e-9) * 1e-6;
+  const pieceCost = (start: number, end: number) =>
+    cost(start, end) + tieBreak * ((end - start) / last) ** 2;
+
+  // best[k][j]: cheapest split of values[0..j] into k pieces; from[k][j]: start of the last piece.
+  const best: number[][] = [Array.from({ length: last + 1 }, (_, j) => pieceCost(0, j))];
+  const from: number[][] = [new Array(last + 1).fill(0)];
+  for (let k = 2; k <= maxSegments; k++) {
+    const row = new Array(last + 1).fill(Infinity);
+    const origin = new Array(last + 1).fill(0);
+    for (let j = k; j <= last; j++) {
+      for (let i = k - 1; i < j; i++) {
+        const total = best[k - 2][i] + pieceCost(i, j);
+        if (total < row[j]) {
+          row[j] = total;
+          origin[j] = i;
+        }
+      }
+    }
+    best.push(row);
+    from.push(origin);
+  }
+
+  const boundariesFor = (k: number) => {
+    const boundaries = [last];
+    let end = last;
+    for (let piece = k; piece > 1; piece--) {
+      end = from[piece - 1][end];
+      boundaries.unshift(end);
+    }
+    boundaries.unshift(0);
+    return boundaries;
+  };
+  return { cost: (k: number) => best[k - 1][last], boundariesFor };
+};
+
+/** Averages `values` into `buckets` consecutive groups; returns means and group starts. */
+const bucketize = (values: number[], buckets: number) => {
+  const means: number[] = [];
+  const starts: number[] = [];
+  for (let bucket = 0; bucket < buckets; bucket++) {
+    const start = Math.floor((bucket * values.length) / buckets);
+    const end = Math.floor(((bucket + 1) * values.length) / buckets);
+    const slice = values.slice(start, end);
+    means.push(slice.reduce((sum, value) => sum + value, 0) / slice.length);
+    starts.push(start);
+  }
+  return { means, starts };
+};
+
+/**
+ * Splits a numeric series into `minSegments`-`maxSegments` phases at its
+ * changepoints. Each phase is the stretch best described by one straight
+ * line; the phase count is picked by a BIC-style score so noise does not
+ * buy extra phases. Open/high/low/close come from the raw points.
+ */
+export const segmentSeries = (
+  points: DataPoint[],
+  { minSegments, maxSegments }: { minSegments: number; maxSegments: number },
+): DatasetSegment[] => {
+  const values = points.map((point) => point.value);
+  const downsampled = values.length > MAX_SEARCH_POINTS;
+  const { means, starts } = downsampled
+    ? bucketize(values, MAX_SEARCH_POINTS)
+    : { means: values, starts: values.map((_, index) => index) };
+  const last = means.length - 1;
+  const upper = Math.min(maxSegments, last);
+  const lower = Math.min(minSegments, upper);
+  const { cost, boundariesFor } = partition(means, upper);
+
+  const floor = 1e-9 * means.length;
+  let chosen = lower;
+  let bestScore = Infinity;
+  for (let k = lower; k <= upper; k++) {
+    const score =
+      means.length * Math.log(Math.max(cost(k), floor) / means.length) +
+      k * PARAMS_PER_SEGMENT * Math.log(means.length);
+    if (score < bestScore) {
+      bestScore = score;
+      chosen = k;
+    }
+  }
+
+  const toRawIndex = (index: number) =>
+    index === 0 ? 0 : index === last ? values.length - 1 : starts[index];
+  const boundaries = boundariesFor(chosen).map(downsampled ? toRawIndex : (index) => index);
+
+  return boundaries.slice(1).map((end, index) => {
+    const start = boundaries[index];
+    const slice = values.slice(start, end + 1);
+    return {
+      start_year: points[start].time,
+      end_year: points[end].time,
+      open: values[start],
+      high: Math.max(...slice),
+      low: Math.min(...slice),
+      close: values[end],
+      points: slice.length,
+    };
+  });
+};
@@ -0,0 +1,83 @@
+export type DeadlineStage = "link_fetch" | "document_parse" | "model";
+
+export type StageTimeouts = Record<DeadlineStage, number>;
+
+type DeadlineEnv = Record<string, string | undefined>;
+
+const DEFAULT_TIMEOUTS: StageTimeouts = {
+  link_fetch: 10_000,
+  document_parse: 15_000,
+  model: 120_000,
+};
+
+const TIMEOUT_ENV_KEYS: Record<DeadlineStage, string> = {
+  link_fetch: "TIMEOUT_LINK_FETCH_MS",
+  document_parse: "TIMEOUT_DOCUMENT_PARSE_MS",
+  model: "TIMEOUT_MODEL_MS",
+};
+
+export class StageTimeoutError extends Error {
+  stage: DeadlineStage;
+  timeoutMs: number;
+
+  constructor(stage: DeadlineStage, timeoutMs: number) {
+    super(`${stage} timed out after ${timeoutMs}ms`);
+    this.name = "StageTimeoutError";
+    this.stage = stage;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export class RequestAbortedError extends Error {
+  constructor() {
+    super("Request aborted by client");
+    this.name = "RequestAbortedError";
+  }
+}
+
+export const readStageTimeouts = (env: DeadlineEnv = process.env): StageTimeouts => {
+  const timeouts = { ...DEFAULT_TIMEOUTS };
+  (Object.keys(TIMEOUT_ENV_KEYS) as DeadlineStage[]).forEach((stage) => {
+    const parsed = Number(env[TIMEOUT_ENV_KEYS[stage]]);
+    if (Number.isFinite(parsed) && parsed > 0) {
+      timeouts[stage] = parsed;
+    }
+  });
+  return timeouts;
+};
+
+/**
+ * Runs `task` with its own AbortSignal that fires when either the deadline
+ * passes or `parent` (usually `request.signal`) aborts. The returned promise
+ * settles as soon as that happens, even if the task itself ignores the signal
+ * (e.g. a PDF parser that cannot be interrupted).
+ */
+export const runWithDeadline = <T>(
+  stage: DeadlineStage,
+  timeoutMs: number,
+  parent: AbortSignal | undefined,
+  task: (signal: AbortSignal) => Promise<T>,
+): Promise<T> => {
+  const controller = new AbortController();
+  return new Promise<T>((resolve, reject) => {
+    if (parent?.aborted) {
+      reject(new RequestAbortedError());
+      return;
+    }
+    const onAbort = () => {
+      controller.abort();
+      reject(new RequestAbortedError());
+    };
+    const timer = setTimeout(() => {
+      controller.abort();
+      reject(new StageTimeoutError(stage, timeoutMs));
+    }, timeoutMs);
+    parent?.addEventListener("abort", onAbort, { once: true });
+    task(controller.signal)
+      .then(resolve, reject)
+      .finally(() => {
+        clearTimeout(timer);
+        parent?.removeEventListener("abort", onAbort);
+      });
+  });
+};
@@ -0,0 +1,67 @@
+import { mapWithConcurrency } from "../concurrency";
+import { RequestAbortedError } from "../deadline";
+
+const DEFAULT_MAX_ITEMS = 20;
+const DEFAULT_CONCURRENCY = 3;
+
+type BatchEnv = Record<string, string | undefined>;
+
+export type BatchConfig = {
+  maxItems: number;
+  concurrency: number;
+};
+
+const parsePositiveInt = (value: string | undefined, fallback: number) => {
+  const parsed = value === undefined ? NaN : Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * - `BATCH_MAX_ITEMS`: 单次批量请求的条目上限，默认 20
+ * - `BATCH_CONCURRENCY`: 同时生成的条目数上限，默认 3；请求可以调低但不能调高
+ */
+export const readBatchConfig = (env: BatchEnv = process.env): BatchConfig => ({
+  maxItems: parsePositiveInt(env.BATCH_MAX_ITEMS, DEFAULT_MAX_ITEMS),
+  concurrency: parsePositiveInt(env.BATCH_CONCURRENCY, DEFAULT_CONCURRENCY),
+});
+
+export type BatchItemOutcome<T> =
+  | { index: number; ok: true; result: T }
+  | { index: number; ok: false; status: number; error: Record<string, unknown> };
+
+/**
+ * Runs `worker` over every item with at most `concurrency` in flight. Items
+ * are picked up in order; `onSettled` fires as each one finishes, so results
+ * arrive out of order and carry their original `index`. Once `signal` aborts
+ * no further items are started.
+ */
+export const runBatch = async <Item, T>({
+  items,
+  concurrency,
+  signal,
+  worker,
+  onSettled,
+}: {
+  items: Item[];
+  concurrency: number;
+  signal?: AbortSignal;
+  worker: (item: Item, index: number) => Promise<BatchItemOutcome<T>>;
+  onSettled?: (outcome: BatchItemOutcome<T>) => void;
+}): Promise<BatchItemOutcome<T>[]> => {
+  const outcomes: BatchItemOutcome<T>[] = [];
+  try {
+    await mapWithConcurrency(items, concurrency, worker, {
+      signal,
+      onSettled: (outcome) => {
+        outcomes.push(outcome);
+        onSettled?.(outcome);
+      },
+    });
+  } catch (error) {
+    // An aborted batch still reports the items that finished.
+    if (!(error instanceof RequestAbortedError)) {
+      throw error;
+    }
+  }
+  return outcomes.sort((a, b) => a.index - b.index);
+};
@@ -0,0 +1,188 @@
+import { randomUUID } from "node:crypto";
+import { NextResponse } from "next/server";
+import { createProviderFromEnv, LlmProvider, ProviderConfigError } from "../llm";
+import { readRequestBody, UploadError } from "../multipart";
+import {
+  buildRateLimitHeaders,
+  describeRateLimitRejection,
+  getRateLimiter,
+  RateLimitDecision,
+} from "../rateLimit";
+import { encodeSseEvent, SSE_CONTENT_TYPE } from "../streaming/sse";
+import { GenerationInput, runTracedGeneration, toErrorBody } from "./index";
+
+type SendEvent = (event: string, data: unknown) => void;
+
+/**
+ * Opens an SSE response and hands `run` a sender plus a signal that aborts
+ * when either `parentSignal` does or the client disconnects. The stream
+ * closes once `run` settles; events sent after a disconnect are dropped.
+ */
+export const openEventStream = (
+  parentSignal: AbortSignal | undefined,
+  extraHeaders: Record<string, string>,
+  run: (send: SendEvent, signal: AbortSignal) => Promise<void>,
+) => {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  const abort = () => abortController.abort();
+  parentSignal?.addEventListener("abort", abort, { once: true });
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SendEvent = (event, data) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(encodeSseEvent(event, data)));
+        }
+      };
+      try {
+        await run(send, abortController.signal);
+      } finally {
+        parentSignal?.removeEventListener("abort", abort);
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+      abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": `${SSE_CONTENT_TYPE}; charset=utf-8`,
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      ...extraHeaders,
+    },
+  });
+};
+
+/**
+ * Runs one generation and streams `progress` events followed by a single
+ * `result` or `error` event. A client disconnect aborts the generation.
+ */
+const streamGeneration = (
+  provider: LlmProvider,
+  input: GenerationInput,
+  extraHeaders: Record<string, string>,
+) =>
+  openEventStream(input.signal, extraHeaders, async (send, signal) => {
+    try {
+      const result = await runTracedGeneration(provider, { ...input, signal }, (progress) =>
+        send("progress", progress),
+      );
+      send("result", result);
+    } catch (error) {
+      const { status, body } = toErrorBody(error);
+      send("error", { ...body, status });
+    }
+  });
+
+/** The configured provider, or the 500 response to return when it is misconfigured. */
+export const createProviderOrResponse = (): LlmProvider | Response => {
+  try {
+    return createProviderFromEnv();
+  } catch (error) {
+    const message =
+      error instanceof ProviderConfigError
+        ? error.message
+        : "模型配置有误，无法生成走势。";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+};
+
+export const readRequestId = (request: Request) =>
+  request.headers.get("x-request-id")?.trim() || randomUUID();
+
+export const rateLimitStatus = (decision: RateLimitDecision) =>
+  decision.reason === "invalid_key" ? 401 : 429;
+
+export const rejectRateLimited = (
+  decision: RateLimitDecision,
+  headers: Record<string, string>,
+) =>
+  NextResponse.json(
+    { error: describeRateLimitRejection(decision), quota: decision.quota },
+    { status: rateLimitStatus(decision), headers },
+  );
+
+/** `stream: true` in the body or an `Accept: text/event-stream` header. */
+export const wantsEventStream = (request: Request, body: { stream?: boolean }) =>
+  body.stream === true || (request.headers.get("accept") ?? "").includes(SSE_CONTENT_TYPE);
+
+/**
+ * Shared POST handler for the single-chart endpoints (`/api/generate` and
+ * `/api/generate/refine`): provider setup, rate limiting, body parsing (JSON
+ * or multipart, see `readRequestBody`), then either an SSE stream or a JSON
+ * response. `buildInput` validates the body and throws a `GenerationError`
+ * for bad requests.
+ */
+export const handleGenerationRequest = async <Body extends { stream?: boolean }>(
+  request: Request,
+  buildInput: (
+    body: Body,
+    options: { requestId: string; signal?: AbortSignal },
+  ) => GenerationInput,
+) => {
+  const provider = createProviderOrResponse();
+  if (provider instanceof Response) {
+    return provider;
+  }
+
+  // Rate limiting comes first so a rejected client's upload is never read.
+  const requestId = readRequestId(request);
+  let rateLimitHeaders: Record<string, string> = { "X-Request-Id": requestId };
+  const limiter = getRateLimiter();
+  let decision: RateLimitDecision | null = null;
+  if (limiter) {
+    decision = await limiter.check(request);
+    rateLimitHeaders = { ...rateLimitHeaders, ...buildRateLimitHeaders(decision) };
+    if (!decision.allowed) {
+      return rejectRateLimited(decision, rateLimitHeaders);
+    }
+  }
+  // A request that turns out to be invalid does not use up daily quota.
+  const rejectInvalid = async (status: number, errorBody: Record<string, unknown>) => {
+    if (limiter && decision) {
+      rateLimitHeaders = {
+        ...rateLimitHeaders,
+        ...buildRateLimitHeaders(await limiter.refund(decision)),
+      };
+    }
+    return NextResponse.json(errorBody, { status, headers: rateLimitHeaders });
+  };
+
+  let body: Body;
+  try {
+    body = await readRequestBody<Body>(request);
+  } catch (error) {
+    return rejectInvalid(error instanceof UploadError ? error.status : 400, {
+      error: error instanceof UploadError ? error.message : "请求体格式错误。",
+    });
+  }
+
+  let input: GenerationInput;
+  try {
+    input = buildInput(body, { requestId, signal: request.signal });
+  } catch (error) {
+    const { status, body: errorBody } = toErrorBody(error);
+    return rejectInvalid(status, errorBody);
+  }
+
+  if (wantsEventStream(request, body)) {
+    return streamGeneration(provider, input, rateLimitHeaders);
+  }
+
+  try {
+    const enriched = await runTracedGeneration(provider, input);
+    return NextResponse.json(enriched, { headers: rateLimitHeaders });
+  } catch (error) {
+    const { status, body: errorBody } = toErrorBody(error);
+    return NextResponse.json(errorBody, { status, headers: rateLimitHeaders });
+  }
+};
@@ -0,0 +1,994 @@
+import { jsonrepair } from "jsonrepair";
+import { ChatMessage, LlmProvider, ProviderError } from "../llm";
+import {
+  buildCacheKey,
+  createResultCacheFromEnv,
+  normalizePromptForCache,
+  ResultCache,
+} from "../cache";
+import {
+  readStageTimeouts,
+  RequestAbortedError,
+  runWithDeadline,
+  StageTimeoutError,
+} from "../deadline";
+import {
+  DatasetError,
+  prepareDataset,
+  SegmentedDataset,
+  toDatasetBrief,
+} from "../dataset";
+import { detectLocaleFromText, Locale, matchLocale } from "../i18n";
+import {
+  DrillDownAnchor,
+  fingerprintPrompt,
+  PromptContext,
+  PromptVersionError,
+  ResolvedPrompt,
+  selectPrompt,
+} from "../prompts";
+import {
+  buildReferencePreview,
+  formatReferenceEntry,
+  ingestReferences,
+  ReferenceResult,
+  UploadedDocument,
+} from "../references";
+import {
+  createGenerationTrace,
+  GenerationOutcome,
+  GenerationTrace,
+} from "../telemetry";
+import { createPhaseScanner } from "../streaming/phaseScanner";
+import { DominanceStrategy, enforceDominance } from "../trend/dominance";
+import { formatMonthStamp, reconcileZones, ZonePolicy } from "../trend/cutoff";
+import { normalizeTrendEnums } from "../trend/enums";
+import {
+  anchorSubPhases,
+  findDatasetIssues,
+  findSpanIssues,
+  getFocusedPhase,
+  PhaseFocus,
+  PhaseSeries,
+  phasePath,
+  pinDatasetPhases,
+  pinDatasetSegment,
+  spliceFocusedPhase,
+} from "../trend/phases";
+import {
+  normalizeSeriesLayout,
+  readComparisonSeries,
+  SeriesRankEntry,
+} from "../trend/series";
+import { validateTrendPayload, ValidationIssue } from "../trend/validation";
+
+export * from "./batch";
+
+const normalizeJsonText = (value: string) =>
+  value
+    .replace(/[\u201C\u201D]/g, '"')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/\uFEFF/g, "")
+    .trim();
+
+export type GenerationRequestBody = {
+  prompt?: string;
+  supplementalText?: string;
+  links?: string[];
+  documents?: UploadedDocument[];
+  /** CSV / JSON numeric series, uploaded like `documents`; its segments become the phases. */
+  dataset?: UploadedDocument;
+  stream?: boolean;
+  force?: boolean;
+  promptVersion?: string;
+  locale?: string;
+};
+
+export type GenerationInput = {
+  query: string;
+  supplementalText?: string;
+  links: string[];
+  documents: UploadedDocument[];
+  dataset?: SegmentedDataset;
+  force?: boolean;
+  signal?: AbortSignal;
+  requestId: string;
+  prompt: ResolvedPrompt;
+  refine?: Refinement;
+  drillDown?: DrillDown;
+};
+
+/** A follow-up instruction applied to a chart the user already has. */
+export type Refinement = {
+  current: Record<string, unknown>;
+  instruction: string;
+  /** `request_id` of the chart being revised. */
+  baseRequestId?: string;
+  baseRevision: number;
+  /** Set when only one phase should change (「重新生成此阶段」). */
+  focus?: PhaseFocus & { label: string; span: string };
+  /**
+   * `reference_entries` / `reference_status` of the chart being revised. Its
+   * events keep citing them, so they stand in when no material is re-sent.
+   */
+  references?: Record<string, unknown>[];
+  referenceStatus?: string;
+};
+
+/** Zooming into one phase of an existing chart as a new, finer chart. */
+export type DrillDown = {
+  parent: Record<string, unknown>;
+  anchor: DrillDownAnchor;
+  /** `request_id` of the chart the phase belongs to. */
+  baseRequestId?: string;
+  /** Path of the phase in that chart, e.g. `phases[3]`. */
+  phase: string;
+};
+
+export type GenerationMeta = {
+  request_id: string;
+  prompt_version: string;
+  locale: Locale;
+  provider: string;
+  model: string;
+  repairs: number;
+  swapped_series: boolean;
+  relabelled_zones: string[];
+  cache_hit: boolean;
+  cached_at?: string;
+  /** The user question the chart answers; refinements keep the original one. */
+  query: string;
+  /** 1 for a fresh generation, +1 for every refinement on top of it. */
+  revision: number;
+  refined_from?: string;
+  instruction?: string;
+  /** Path of the phase a「重新生成此阶段」revision replaced. */
+  regenerated_phase?: string;
+  drilldown_of?: { request_id?: string; phase: string; label: string };
+  /** Set when the phases were cut from an uploaded series. */
+  dataset?: { name: string; points: number; segments: number };
+};
+
+export type GenerationResult = Record<string, unknown> & {
+  generation_meta: GenerationMeta;
+};
+
+let resultCache: ResultCache<GenerationResult> | null | undefined;
+
+const getResultCache = () => {
+  if (resultCache === undefined) {
+    resultCache = createResultCacheFromEnv<GenerationResult>();
+  }
+  return resultCache;
+};
+
+export type GenerationProgress =
+  | {
+      stage: "references";
+      status: ReferenceResult["status"];
+      count: number;
+      errors: string[];
+    }
+  | { stage: "cache"; hit: boolean }
+  | { stage: "model"; attempt: number }
+  | { stage: "phase"; index: number; phase: Record<string, unknown> }
+  | { stage: "repair"; round: number; issues: number }
+  | { stage: "validated" };
+
+export class GenerationError extends Error {
+  status: number;
+  code?: string;
+  details?: string;
+  issues?: ValidationIssue[];
+
+  constructor(
+    message: string,
+    status: number,
+    options: { code?: string; details?: string; issues?: ValidationIssue[] } = {},
+  ) {
+    super(message);
+    this.name = "GenerationError";
+    this.status = status;
+    this.code = options.code;
+    this.details = options.details;
+    this.issues = options.issues;
+  }
+}
+
+export const MAX_DOCUMENTS = 5;
+export const MAX_LINKS = 10;
+
+/**
+ * Validates a request body and resolves its locale and prompt version. Shared
+ * by `/api/generate` and every item of `/api/generate/batch`; problems surface
+ * as a 400 `GenerationError` with code `invalid_request`.
+ */
+export const buildGenerationInput = (
+  body: GenerationRequestBody,
+  { requestId, signal }: { requestId: string; signal?: AbortSignal },
+): GenerationInput => {
+  const query = typeof body.prompt === "string" ? body.prompt.trim() : "";
+  if (!query) {
+    throw new GenerationError("请提供有效的走势描述。", 400, {
+      code: "invalid_request",
+    });
+  }
+
+  const requestedLocale = body.locale?.trim();
+  const locale = requestedLocale
+    ? matchLocale(requestedLocale)
+    : detectLocaleFromText(query);
+  if (!locale) {
+    throw new GenerationError(`不支持的语言：${requestedLocale}`, 400, {
+      code: "invalid_request",
+    });
+  }
+
+  let prompt: ResolvedPrompt;
+  try {
+    prompt = selectPrompt({
+      requested: body.promptVersion?.trim() || undefined,
+      locale,
+      stickyKey: normalizePromptForCache(query),
+    });
+  } catch (error) {
+    if (error instanceof PromptVersionError) {
+      throw new GenerationError(
+        `提示词版本 ${error.version} 不支持 ${error.locale}。`,
+        400,
+        { code: "invalid_request" },
+      );
+    }
+    throw error;
+  }
+
+  let dataset: SegmentedDataset | undefined;
+  if (body.dataset) {
+    try {
+      dataset = prepareDataset(body.dataset);
+    } catch (error) {
+      if (error instanceof DatasetError) {
+        throw new GenerationError(error.message, 400, { code: "invalid_request" });
+      }
+      throw error;
+    }
+  }
+
+  return {
+    query,
+    supplementalText: body.supplementalText?.trim(),
+    links: Array.isArray(body.links)
+      ? body.links
+          .map((link) => link.trim())
+          .filter(Boolean)
+          .slice(0, MAX_LINKS)
+      : [],
+    documents: Array.isArray(body.documents)
+      ? body.documents.slice(0, MAX_DOCUMENTS)
+      : [],
+    dataset,
+    force: body.force === true,
+    signal,
+    requestId,
+    prompt,
+  };
+};
+
+export type RefinementRequestBody = Omit<GenerationRequestBody, "prompt"> & {
+  /** The chart to revise, as returned by `/api/generate` or a previous refinement. */
+  current?: Record<string, unknown>;
+  instruction?: string;
+  /** Original question; defaults to `current.generation_meta.query`. */
+  prompt?: string;
+};
+
+const MAX_INSTRUCTION_CHARS = 500;
+
+/** Fields the server derives after validation; they are not sent back to the model. */
+const SERVER_FIELDS = [
+  "generation_meta",
+  "data_cutoff_date",
+  "reference_status",
+  "reference_entries",
+  "reference_errors",
+  "consistency_warnings",
+  "series_ranking",
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+export const stripServerFields = (payload: Record<string, unknown>) =>
+  Object.fromEntries(
+    Object.entries(payload).filter(([key]) => !SERVER_FIELDS.includes(key)),
+  );
+
+const readInstruction = (value: unknown, required: boolean) => {
+  const instruction = typeof value === "string" ? value.trim() : "";
+  if (!instruction && required) {
+    throw new GenerationError("请描述需要如何修改当前走势。", 400, {
+      code: "invalid_request",
+    });
+  }
+  if (instruction.length > MAX_INSTRUCTION_CHARS) {
+    throw new GenerationError(
+      `修改要求不能超过 ${MAX_INSTRUCTION_CHARS} 个字符。`,
+      400,
+      { code: "invalid_request" },
+    );
+  }
+  return instruction;
+};
+
+/**
+ * Resolves the input for a request that starts from an existing chart. The
+ * question, prompt version and locale default to the ones `current` was
+ * generated with, so a follow-up does not switch templates half-way through.
+ */
+const buildFollowUpInput = (
+  body: RefinementRequestBody,
+  options: { requestId: string; signal?: AbortSignal },
+) => {
+  if (!isRecord(body.current) || !Array.isArray(body.current.phases)) {
+    throw new GenerationError("请提供需要修改的走势结果（current）。", 400, {
+      code: "invalid_request",
+    });
+  }
+  const current = normalizeSeriesLayout(body.current);
+  const meta = isRecord(current.generation_meta) ? current.generation_meta : {};
+  const readMeta = (key: string) =>
+    typeof meta[key] === "string" ? (meta[key] as string) : undefined;
+  const input = buildGenerationInput(
+    {
+      ...body,
+      prompt:
+        body.prompt?.trim() ||
+        readMeta("query") ||
+        (typeof current.subject === "string" ? current.subject : undefined),
+      locale: body.locale ?? readMeta("locale"),
+      promptVersion: body.promptVersion ?? readMeta("prompt_version"),
+    },
+    options,
+  );
+  return {
+    input,
+    current,
+    references: Array.isArray(current.reference_entries)
+      ? current.reference_entries.filter(isRecord)
+      : [],
+    referenceStatus:
+      typeof current.reference_status === "string" ? current.reference_status : undefined,
+    baseRequestId: readMeta("request_id"),
+    baseRevision:
+      typeof meta.revision === "number" && meta.revision > 0 ? meta.revision : 1,
+  };
+};
+
+/** Like `buildGenerationInput`, but for a revision of `body.current`. */
+export const buildRefinementInput = (
+  body: RefinementRequestBody,
+  options: { requestId: string; signal?: AbortSignal },
+): GenerationInput => {
+  const { input, current, references, referenceStatus, baseRequestId, baseRevision } =
+    buildFollowUpInput(body, options);
+  return {
+    ...input,
+    refine: {
+      current: stripServerFields(current),
+      instruction: readInstruction(body.instruction, true),
+      references,
+      referenceStatus,
+      baseRequestId,
+      baseRevision,
+    },
+  };
+};
+
+export type PhaseRequestBody = RefinementRequestBody & {
+  mode?: "regenerate" | "drilldown";
+  /** `primary`, an index into `series`, or the legacy `secondary` (= 0). */
+  series?: PhaseSeries | "secondary";
+  phaseIndex?: number;
+};
+
+const readPhaseSeries = (value: PhaseRequestBody["series"]): PhaseSeries => {
+  if (value === "secondary") {
+    return 0;
+  }
+  const index = Number(value);
+  return value !== undefined && value !== "primary" && Number.isInteger(index) && index >= 0
+    ? index
+    : "primary";
+};
+
+const describeSpan = (phase: Record<string, unknown>) =>
+  `${String(phase.start_year ?? "")} – ${String(phase.end_year ?? "")}`;
+
+/**
+ * `regenerate` redoes one phase in place (a refinement limited to that
+ * phase); `drilldown` starts a new chart of finer sub-phases covering the
+ * phase's time span, anchored to its prices and events.
+ */
+export const buildPhaseInput = (
+  body: PhaseRequestBody,
+  options: { requestId: string; signal?: AbortSignal },
+): GenerationInput => {
+  if (body.mode !== "regenerate" && body.mode !== "drilldown") {
+    throw new GenerationError("mode 只能是 regenerate 或 drilldown。", 400, {
+      code: "invalid_request",
+    });
+  }
+  const { input, current, references, referenceStatus, baseRequestId, baseRevision } =
+    buildFollowUpInput(body, options);
+  const focus: PhaseFocus = {
+    series: readPhaseSeries(body.series),
+    index: Number(body.phaseIndex),
+  };
+  const phase = Number.isInteger(focus.index) ? getFocusedPhase(current, focus) : null;
+  if (!phase) {
+    throw new GenerationError(`找不到要处理的阶段：${phasePath(focus)}。`, 400, {
+      code: "invalid_request",
+    });
+  }
+  const label = typeof phase.label === "string" ? phase.label : phasePath(focus);
+
+  if (body.mode === "regenerate") {
+    return {
+      ...input,
+      refine: {
+        current: stripServerFields(current),
+        instruction: readInstruction(body.instruction, false),
+        references,
+        referenceStatus,
+        baseRequestId,
+        baseRevision,
+        focus: { ...focus, label, span: describeSpan(phase) },
+      },
+    };
+  }
+
+  const series =
+    focus.series === "primary" ? current : (readComparisonSeries(current)[focus.series] ?? current);
+  const subject = typeof series.subject === "string" ? series.subject : input.query;
+  const events = Array.isArray(phase.key_events)
+    ? phase.key_events
+        .filter(isRecord)
+        .map((event) => `${String(event.time ?? "")}：${String(event.description ?? "")}`)
+    : [];
+  return {
+    ...input,
+    query: `${subject} · ${label}（${describeSpan(phase)}）`,
+    // Sub-phases are finer than the uploaded series' segments and must not be pinned to them.
+    dataset: undefined,
+    drillDown: {
+      parent: phase,
+      baseRequestId,
+      phase: phasePath(focus),
+      anchor: {
+        subject,
+        metric: typeof series.metric === "string" ? series.metric : "",
+        label,
+        span: describeSpan(phase),
+        open: Number(phase.open),
+        close: Number(phase.close),
+        low: Number(phase.low),
+        high: Number(phase.high),
+        events,
+      },
+    },
+  };
+};
+
+const DEFAULT_MAX_REPAIRS = 2;
+const MAX_REPAIR_LIMIT = 5;
+const MAX_REPAIR_ISSUES = 20;
+
+const resolveMaxRepairs = () => {
+  const raw = process.env.GENERATION_MAX_REPAIRS;
+  const parsed = raw === undefined ? NaN : Number.parseInt(raw, 10);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    return DEFAULT_MAX_REPAIRS;
+  }
+  return Math.min(parsed, MAX_REPAIR_LIMIT);
+};
+
+const resolveDominanceStrategy = (): DominanceStrategy =>
+  process.env.DOMINANCE_STRATEGY?.trim().toLowerCase() === "repair"
+    ? "repair"
+    : "swap";
+
+const resolveZonePolicy = (): ZonePolicy =>
+  process.env.CUTOFF_ZONE_POLICY?.trim().toLowerCase() === "reject"
+    ? "reject"
+    : "relabel";
+
+const buildRepairPrompt = (prompt: ResolvedPrompt, issues: ValidationIssue[]) =>
+  prompt.repair(
+    issues
+      .slice(0, MAX_REPAIR_ISSUES)
+      .map((issue) => `- ${issue.path}${prompt.locale === "en" ? ": " : "："}${issue.message}`),
+    Math.max(0, issues.length - MAX_REPAIR_ISSUES),
+  );
+
+const attemptParse = (payload: string) => {
+  const normalized = normalizeJsonText(payload);
+  try {
+    return JSON.parse(normalized);
+  } catch {
+    try {
+      const repaired = jsonrepair(normalized);
+      return JSON.parse(repaired);
+    } catch {
+      return null;
+    }
+  }
+};
+
+const extractJsonPayload = (content: string) => {
+  const trimmed = normalizeJsonText(content);
+  const direct = attemptParse(trimmed);
+  if (direct) {
+    return direct;
+  }
+
+  const fenceMatch = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenceMatch) {
+    const fenced = attemptParse(fenceMatch[1].trim());
+    if (fenced) {
+      return fenced;
+    }
+  }
+
+  const firstBrace = trimmed.indexOf("{");
+  const lastBrace = trimmed.lastIndexOf("}");
+  if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
+    const sliced = trimmed.slice(firstBrace, lastBrace + 1);
+    const parsedSlice = attemptParse(sliced);
+    if (parsedSlice) {
+      return parsedSlice;
+    }
+  }
+  return null;
+};
+
+export const generateTrend = async (
+  provider: LlmProvider,
+  input: GenerationInput,
+  trace: GenerationTrace,
+  onProgress?: (progress: GenerationProgress) => void,
+): Promise<GenerationResult> => {
+  const { query, prompt } = input;
+  const timeouts = readStageTimeouts();
+  const ingestion = await trace.measure("references", () =>
+    ingestReferences({
+      supplementalText: input.supplementalText,
+      links: input.links,
+      documents: input.documents,
+      signal: input.signal,
+      timeouts,
+      query: [
+        query,
+        ...[input.refine?.current, input.drillDown?.parent].map((chart) =>
+          typeof chart?.subject === "string" ? chart.subject : "",
+        ),
+        input.refine?.instruction ?? "",
+      ]
+        .filter(Boolean)
+        .join(" "),
+    }),
+  );
+  trace.annotate({
+    reference_status: ingestion.status,
+    reference_count: ingestion.references.length,
+    reference_errors: ingestion.errors.length,
+  });
+  onProgress?.({
+    stage: "references",
+    status: ingestion.status,
+    count: ingestion.references.length,
+    errors: ingestion.errors,
+  });
+
+  // Follow-ups depend on the chart they start from, so they bypass the cache.
+  const cache = input.refine || input.drillDown ? null : getResultCache();
+  const cacheKey = cache
+    ? buildCacheKey({
+        prompt: query,
+        references: input.dataset
+          ? [
+              ...ingestion.references,
+              {
+                type: "dataset",
+                source: input.dataset.name,
+                content: JSON.stringify(input.dataset.points),
+              },
+            ]
+          : ingestion.references,
+        version: [
+          provider.id,
+          provider.model,
+          prompt.version,
+          prompt.locale,
+          fingerprintPrompt(prompt),
+        ].join(":"),
+      })
+    : null;
+  if (cache && cacheKey && !input.force) {
+    const cached = await trace.measure("cache", () => cache.store.get(cacheKey));
+    if (cached) {
+      trace.annotate({ cache_hit: true });
+      onProgress?.({ stage: "cache", hit: true });
+      return {
+        ...cached.value,
+        generation_meta: {
+          ...cached.value.generation_meta,
+          request_id: trace.requestId,
+          cache_hit: true,
+          cached_at: new Date(cached.storedAt).toISOString(),
+        },
+      };
+    }
+  }
+
+  const hasReferenceBlock = ingestion.references.length > 0;
+  const referenceBlock = hasReferenceBlock
+    ? ingestion.references.map(formatReferenceEntry).join("\n\n")
+    : undefined;
+
+  const promptContext: PromptContext = {
+    referenceBlock,
+    referenceStatus: ingestion.status,
+    referenceSources: ingestion.references.map(({ type, source }) => ({
+      type,
+      source,
+    })),
+  };
+
+  const referenceInstructionMessage: ChatMessage[] =
+    hasReferenceBlock && referenceBlock
+      ? [
+          {
+            role: "system",
+            content: prompt.referenceInstruction(referenceBlock),
+          },
+        ]
+      : [];
+
+  const requireSourceDigest = ingestion.references.length > 0;
+  const maxRepairs = resolveMaxRepairs();
+  const { refine, drillDown, dataset } = input;
+  // A revision sent without its material still cites the chart's references,
+  // so `source_refs` are checked against those and they are carried over.
+  const inheritedReferences =
+    !ingestion.references.length && refine?.references?.length ? refine.references : null;
+  const referenceCount = inheritedReferences
+    ? inheritedReferences.length
+    : ingestion.references.length;
+  const openConversation = (hint?: string): ChatMessage[] => {
+    const withHint = (content: string) => (hint ? `${content}\n\n${hint}` : content);
+    if (!refine) {
+      const userPrompt = [
+        prompt.user(query, promptContext),
+        ...(drillDown ? [prompt.drillDown(drillDown.anchor)] : []),
+        ...(dataset ? [prompt.dataset(toDatasetBrief(dataset))] : []),
+      ].join("\n\n");
+      return [{ role: "user", content: withHint(userPrompt) }];
+    }
+    const followUp = refine.focus
+      ? prompt.regeneratePhase(
+          { path: phasePath(refine.focus), label: refine.focus.label, span: refine.focus.span },
+          refine.instruction || undefined,
+        )
+      : prompt.refine(refine.instruction);
+    return [
+      { role: "user", content: prompt.user(query, promptContext) },
+      { role: "assistant", content: JSON.stringify(refine.current) },
+      { role: "user", content: withHint(followUp) },
+    ];
+  };
+  let conversation = openConversation();
+  const dominanceStrategy = resolveDominanceStrategy();
+  let parsed: object | null = null;
+  let parseRetried = false;
+  let repairs = 0;
+  let swappedSeries = false;
+  let consistencyWarnings: ValidationIssue[] = [];
+  let seriesRanking: SeriesRankEntry[] | null = null;
+  const zonePolicy = resolveZonePolicy();
+  let relabelledZones: string[] = [];
+  let cutoffDate: string | null = null;
+
+  for (let attempt = 1; ; attempt++) {
+    trace.annotate({ attempts: attempt });
+    onProgress?.({ stage: "model", attempt });
+    let onDelta: ((delta: string) => void) | undefined;
+    if (onProgress) {
+      const scanner = createPhaseScanner();
+      let streamed = "";
+      let phaseIndex = 0;
+      onDelta = (delta) => {
+        streamed += delta;
+        for (const phase of scanner.scan(streamed)) {
+          onProgress({ stage: "phase", index: phaseIndex++, phase });
+        }
+      };
+    }
+
+    let completion;
+    try {
+      completion = await trace.measure("model", () =>
+        runWithDeadline("model", timeouts.model, input.signal, (signal) =>
+          provider.complete({
+            messages: [
+              {
+                role: "system",
+                content: prompt.system,
+              },
+              ...referenceInstructionMessage,
+              ...conversation,
+            ],
+            onDelta,
+            signal,
+          }),
+        ),
+      );
+    } catch (providerError) {
+      if (providerError instanceof ProviderError) {
+        throw new GenerationError(providerError.message, 502, {
+          code: "provider_error",
+          details: providerError.details,
+        });
+      }
+      if (providerError instanceof StageTimeoutError) {
+        throw new GenerationError(
+          `模型在 ${Math.round(providerError.timeoutMs / 1000)} 秒内未返回结果，请稍后重试。`,
+          504,
+          { code: "timeout" },
+        );
+      }
+      throw providerError;
+    }
+
+    trace.addUsage(completion.usage);
+    const rawContent = completion.content;
+    const extracted = rawContent ? extractJsonPayload(rawContent) : null;
+    const normalized = extracted
+      ? normalizeSeriesLayout(normalizeTrendEnums(extracted))
+      : null;
+    const spliced =
+      normalized && refine?.focus
+        ? spliceFocusedPhase(refine.current, normalized, refine.focus)
+        : null;
+    const candidate = !normalized
+      ? null
+      : refine?.focus
+        ? spliced && dataset
+          ? pinDatasetSegment(spliced, dataset, refine.focus)
+          : spliced
+        : dataset
+          ? pinDatasetPhases(normalized, dataset, prompt.locale)
+          : normalized;
+    if (!rawContent || !candidate) {
+      if (parseRetried) {
+        throw new GenerationError(
+          "AI 返回内容无法解析，请稍后重试（系统已自动重试一次）。",
+          502,
+          { code: "unparseable" },
+        );
+      }
+      parseRetried = true;
+      trace.annotate({ parse_retries: 1 });
+      conversation = openConversation(prompt.jsonHint);
+      continue;
+    }
+
+    const requestRepair = (issues: ValidationIssue[]) => {
+      repairs++;
+      trace.annotate({ repairs });
+      onProgress?.({ stage: "repair", round: repairs, issues: issues.length });
+      conversation = [
+        ...conversation,
+        { role: "assistant", content: rawContent },
+        { role: "user", content: buildRepairPrompt(prompt, issues) },
+      ];
+    };
+
+    const issues = [
+      ...validateTrendPayload(candidate, {
+        requireSourceDigest,
+        referenceCount,
+        locale: prompt.locale,
+      }),
+      // A regenerated phase is spliced into the pinned chart, so only whole
+      // charts have to match the segments.
+      ...(dataset && normalized && !refine?.focus
+        ? findDatasetIssues(normalized, dataset, prompt.locale)
+        : []),
+    ];
+    trace.annotate({ validation: { passed: !issues.length, issues: issues.length } });
+    if (issues.length) {
+      if (repairs >= maxRepairs) {
+        throw new GenerationError(
+          repairs > 0
+            ? `AI 输出未通过结构校验（已自动修正 ${repairs} 轮）。`
+            : "AI 输出未通过结构校验。",
+          502,
+          { code: "validation_failed", issues },
+        );
+      }
+      requestRepair(issues);
+      continue;
+    }
+
+    const canRepair = repairs < maxRepairs;
+    const dominance = enforceDominance(candidate, {
+      strategy: dominanceStrategy,
+      canRepair,
+      locale: prompt.locale,
+    });
+    const zones = reconcileZones(dominance.payload, {
+      policy: zonePolicy,
+      canRepair,
+      locale: prompt.locale,
+    });
+    const spanIssues = drillDown
+      ? findSpanIssues(zones.payload, drillDown.parent, prompt.locale)
+      : [];
+    const softIssues = [...dominance.issues, ...zones.issues, ...spanIssues];
+    if (softIssues.length && canRepair) {
+      requestRepair(softIssues);
+      continue;
+    }
+    // Sub-phases outside the zoomed phase cannot be joined back to the parent chart.
+    if (spanIssues.length) {
+      throw new GenerationError(
+        `放大后的子阶段超出了原阶段的时间范围（已自动修正 ${repairs} 轮）。`,
+        502,
+        { code: "validation_failed", issues: spanIssues },
+      );
+    }
+    parsed = drillDown ? anchorSubPhases(zones.payload, drillDown.parent) : zones.payload;
+    swappedSeries = dominance.swapped;
+    consistencyWarnings = dominance.issues;
+    seriesRanking = dominance.ranking;
+    relabelledZones = zones.relabelled;
+    cutoffDate = zones.cutoff ? formatMonthStamp(zones.cutoff) : null;
+    trace.annotate({
+      validation: {
+        passed: true,
+        issues: 0,
+        swapped_series: swappedSeries,
+        relabelled_zones: relabelledZones.length,
+      },
+    });
+    break;
+  }
+
+  onProgress?.({ stage: "validated" });
+
+  const result: GenerationResult = {
+    ...parsed,
+    data_cutoff_date: cutoffDate,
+    reference_status: inheritedReferences
+      ? (refine?.referenceStatus ?? "success")
+      : ingestion.status,
+    reference_entries: inheritedReferences ?? ingestion.references.map(
+      ({ type, source, content, chunks, total_chunks, title, published_at, author }) => ({
+        type,
+        source,
+        preview: buildReferencePreview(content),
+        ...(title ? { title } : {}),
+        ...(published_at ? { published_at } : {}),
+        ...(author ? { author } : {}),
+        ...(chunks ? { chunks, total_chunks } : {}),
+      }),
+    ),
+    reference_errors: ingestion.errors,
+    consistency_warnings: consistencyWarnings,
+    ...(seriesRanking ? { series_ranking: seriesRanking } : {}),
+    generation_meta: {
+      request_id: trace.requestId,
+      prompt_version: prompt.version,
+      locale: prompt.locale,
+      provider: provider.id,
+      model: provider.model,
+      repairs,
+      swapped_series: swappedSeries,
+      relabelled_zones: relabelledZones,
+      cache_hit: false,
+      query,
+      revision: refine ? refine.baseRevision + 1 : 1,
+      ...(refine
+        ? {
+            refined_from: refine.baseRequestId,
+            instruction: refine.instruction || undefined,
+            regenerated_phase: refine.focus ? phasePath(refine.focus) : undefined,
+          }
+        : {}),
+      ...(dataset
+        ? {
+            dataset: {
+              name: dataset.name,
+              points: dataset.points.length,
+              segments: dataset.segments.length,
+            },
+          }
+        : {}),
+      ...(drillDown
+        ? {
+            drilldown_of: {
+              request_id: drillDown.baseRequestId,
+              phase: drillDown.phase,
+              label: drillDown.anchor.label,
+            },
+          }
+        : {}),
+    },
+  };
+  if (cache && cacheKey) {
+    await cache.store.set(cacheKey, result, cache.ttlMs);
+  }
+  return result;
+};
+
+const TRACED_ERROR_CODES: GenerationOutcome[] = [
+  "unparseable",
+  "validation_failed",
+  "provider_error",
+  "timeout",
+];
+
+const resolveOutcome = (error: unknown): GenerationOutcome => {
+  if (error instanceof GenerationError && error.code) {
+    const code = error.code as GenerationOutcome;
+    return TRACED_ERROR_CODES.includes(code) ? code : "error";
+  }
+  return error instanceof RequestAbortedError ? "aborted" : "error";
+};
+
+export const runTracedGeneration = async (
+  provider: LlmProvider,
+  input: GenerationInput,
+  onProgress?: (progress: GenerationProgress) => void,
+) => {
+  const trace = createGenerationTrace({
+    requestId: input.requestId,
+    provider: provider.id,
+    model: provider.model,
+    promptVersion: input.prompt.version,
+    locale: input.prompt.locale,
+  });
+  try {
+    const result = await generateTrend(provider, input, trace, onProgress);
+    trace.finish(result.generation_meta.cache_hit ? "cache_hit" : "success");
+    return result;
+  } catch (error) {
+    trace.finish(resolveOutcome(error));
+    throw error;
+  }
+};
+
+export const toErrorBody = (error: unknown) => {
+  if (error instanceof GenerationError) {
+    return {
+      status: error.status,
+      body: {
+        error: error.message,
+        code: error.code,
+        details: error.details,
+        issues: error.issues,
+      },
+    };
+  }
+  if (error instanceof RequestAbortedError) {
+    return {
+      status: 499,
+      body: { error: "请求已取消。", code: "aborted" },
+    };
+  }
+  console.error(error);
+  return {
+    status: 500,
+    body: { error: "生成走势失败，请稍后再试。" },
+  };
+};
@@ -0,0 +1,32 @@
+export const SUPPORTED_LOCALES = ["zh-CN", "en"] as const;
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "zh-CN";
+
+export const isLocale = (value: unknown): value is Locale =>
+  (SUPPORTED_LOCALES as readonly unknown[]).includes(value);
+
+/**
+ * Maps loose tags (`zh`, `zh-Hans`, `en-US`…) onto a supported locale;
+ * returns null for anything else.
+ */
+export const matchLocale = (value: string | null | undefined): Locale | null => {
+  const tag = value?.trim().toLowerCase();
+  if (!tag) {
+    return null;
+  }
+  if (tag === "zh" || tag.startsWith("zh-")) {
+    return "zh-CN";
+  }
+  if (tag === "en" || tag.startsWith("en-")) {
+    return "en";
+  }
+  return null;
+};
+
+const CJK_PATTERN = /[㐀-鿿豈-﫿]/;
+const LATIN_WORD_PATTERN = /[a-z]{2,}/i;
+
+/** Guesses the output language from the question itself: no CJK text and some Latin words means English. */
+export const detectLocaleFromText = (text: string): Locale =>
+  !CJK_PATTERN.test(text) && LATIN_WORD_PATTERN.test(text) ? "en" : DEFAULT_LOCALE;
@@ -0,0 +1,437 @@
+import type { EventImpact, TrendZone } from "../trend/enums";
+import type { Locale } from "./locale";
+
+const zhCN = {
+  localeSwitch: "English",
+  heroTitle: "K线世界",
+  heroSubtitle: "一目了然 · Clear at a glance",
+  placeholderSamples: [
+    "Blackpink 的名气走势",
+    "泰勒斯威夫特的人气变化",
+    "二战各国的表现走势",
+    "比尔盖茨的财富积累变化",
+    "AI 创业热度的叙事起伏",
+    "巴黎奥运关注度的高潮与回落",
+  ],
+  quote: (text: string) => `“${text}”`,
+  generate: "生成走势",
+  cancel: "取消",
+  quotaRemaining: (remaining: number, limit: number) =>
+    `今日剩余生成次数：${remaining} / ${limit}`,
+
+  progress: {
+    start: "正在读取资料…",
+    referencesEmpty: "未提供资料，基于公开信息建模…",
+    referencesRead: (count: number) => `已读取 ${count} 份资料…`,
+    referencesPartial: (count: number, failed: number) =>
+      `已读取 ${count} 份资料，${failed} 份读取失败…`,
+    cacheHit: "命中缓存，直接返回上次结果…",
+    modelRetry: "输出格式异常，正在重新生成…",
+    model: "模型生成中…",
+    phases: (count: number) => `已解析 ${count} 段走势…`,
+    repair: (issues: number, round: number) =>
+      `校验发现 ${issues} 处问题，正在第 ${round} 轮自动修正…`,
+    validated: "结构校验通过，正在渲染…",
+  },
+
+  errors: {
+    generationFailed: "生成失败，请稍后再试。",
+    emptyQuery: "请输入一句想要解析的走势描述。",
+    streamUnsupported: "浏览器不支持流式读取，请稍后再试。",
+    streamInterrupted: "生成过程意外中断，请稍后再试。",
+    emptyResult: "AI 未返回有效走势，请稍后重试。",
+    withIssues: (base: string, shown: string[], total: number) =>
+      `${base}（${shown.join("；")}${total > shown.length ? ` 等 ${total} 项` : ""}）`,
+    withDetails: (base: string, details: string[]) => `${base}（${details.join("；")}）`,
+    /** Server messages are already Chinese, so no overrides are needed. */
+    byCode: {} as Partial<Record<string, string>>,
+  },
+
+  hints: {
+    cancelled: "已取消生成。",
+    maxDocuments: "最多上传 5 份资料。",
+    documentsAdded: "资料已添加为分析依据。",
+    fileReadFailed: "文件读取失败，请重试。",
+    fileTooLarge: "单个文件需小于 2MB，请压缩后再上传。",
+    exportUnavailable: "暂时无法导出，请稍后再试。",
+    pngExported: "PNG 已导出",
+    clipboardUnsupported: "浏览器不支持自动复制，请手动复制。",
+    jsonCopied: "JSON 已复制",
+    copyFailed: "复制失败，请手动复制。",
+  },
+
+  evidence: {
+    title: "上传 / 添加资料（可选）",
+    subtitle: "AI 会优先阅读这些内容，并将其作为走势锚点",
+    supplementPlaceholder: "可粘贴采访、剧情梳理、论坛帖子、研报摘要……",
+    remove: "移除",
+    inUse: "已作为分析依据",
+    addLink: "+ 添加链接",
+    uploadTitle: "上传文件 / 拖拽到此",
+    uploadHint: "支持 PDF / DOCX / TXT / Markdown · 单个文件 ≤ 2MB",
+    datasetTitle: "上传数值序列（CSV / JSON）",
+    datasetHint: "第一列为时间、之后为数值；系统按真实数据自动切分阶段，AI 只负责标注与解读",
+    checking: "读取中…",
+    checkOk: (chars: number, language: string) => `已读取 ${chars} 字 · ${language}`,
+    checkTruncated: "内容较长，将只采用相关片段",
+    checkFailed: "读取失败",
+    languages: {
+      zh: "中文",
+      ja: "日文",
+      ko: "韩文",
+      en: "英文",
+      other: "其他语言",
+      unknown: "未识别语言",
+    },
+  },
+
+  meta: {
+    timeframe: (value: string) => `时间跨度：${value}`,
+    phaseCount: (count: number) => `阶段数：${count} 段`,
+    cutoffTitle: (date: string) => `现实区间截至 ${date}`,
+    cachedAt: (date: string) => `缓存时间：${date}`,
+    fromCache: "来自缓存 · 点击重新生成",
+    relabelled: (count: number) => `已将 ${count} 个超出截止月份的阶段改标为推演区间`,
+    dataset: (name: string, points: number) => `基于上传数据：${name}（${points} 个数据点）`,
+  },
+
+  chart: {
+    primaryLegend: (subject: string) => `${subject}（主动）`,
+    secondaryLegend: (subject: string) => `${subject}（对照）`,
+    dualTag: (count: number) => `双线对照 · ${count} 段`,
+    multiTag: (lines: number, count: number) => `${lines} 线对照 · ${count} 段`,
+    rankedLegend: (subject: string, rank: number) => `${subject}（终局第 ${rank}）`,
+    showLine: "点击显示该曲线",
+    hideLine: "点击隐藏该曲线",
+    singleTag: (count: number) => `阶段数：${count} 段`,
+    seasonTick: (season: number) => `${season}季`,
+    yearTick: (year: number) => `${year}年`,
+    axisWithUnit: (label: string, unit: string) => `${label}（${unit}）`,
+  },
+
+  references: {
+    success: "✅ 已参考你提供的资料，AI 将其作为事实锚点。",
+    partial: "⚠️ 仅部分资料读取成功，下方列出的内容已纳入分析，其余已忽略。",
+    failed: "❌ 未能成功读取你提供的资料，已回退为公开信息。",
+    empty: "系统基于公开信息与 AI 搜索生成走势。",
+    supplementalText: "用户补充文本",
+    file: (name: string) => `文件 · ${name}`,
+    errorsTitle: "以下资料读取失败，已忽略：",
+    chunksUsed: (used: number[], total: number) =>
+      `AI 读取了第 ${used.join("、")} 段（共 ${total} 段，按与提问的相关度挑选）`,
+    openSource: (label: string) => `查看出处：${label}`,
+    publishedAt: (date: string) => `发布于 ${date}`,
+  },
+
+  axis: {
+    dual: "双纵轴",
+    single: "单纵轴",
+    primary: "Y1（右）：",
+    secondary: "Y2（左）：",
+  },
+
+  relationFallback: "对照模式呈现各方在同一时间线上的牵引关系。",
+  counterpart: "对照",
+  swappedSeries: "已按最终收盘自动调整曲线顺序：红线始终代表终局排名第一的一方。",
+  consistencyWarnings: "以下文字可能与图表结论不一致，请以曲线为准：",
+
+  sections: {
+    sourceDigest: "资料摘要",
+    chartExplanation: "图表说明",
+    trendObservation: "走势观察",
+    relationshipJudgment: "关系判断",
+    overallAnalysis: "走势解读",
+    prediction: "推演判断（非事实）",
+    predictionNote: "以下为基于当前信息的推演判断，不构成事实描述。",
+  },
+
+  actions: {
+    toolbar: "导出工具",
+    exportPng: "导出 PNG",
+    copyJson: "复制 JSON",
+  },
+
+  refine: {
+    title: "继续调整这张图",
+    placeholder: "例如：把 2020 年拆成两段 / 加入 2023 年的解散传闻 / 改成双线对比 Jennie vs Lisa",
+    submit: "修改",
+    emptyInstruction: "请描述需要如何修改当前走势。",
+    undo: "撤销",
+    redo: "重做",
+    revision: (current: number, total: number) => `第 ${current} / ${total} 版`,
+    lastInstruction: (instruction: string) => `本版修改：${instruction}`,
+  },
+
+  insights: {
+    peak: "叙事峰值",
+    peakValue: (value: number) => `最高 ${value}`,
+    trough: "情绪谷底",
+    troughValue: (value: number) => `最低 ${value}`,
+    momentum: "整体势能",
+    upTrend: "上行趋势",
+    downTrend: "回落趋势",
+    volatility: (value: number) => `平均波动幅度约 ${value} 点`,
+  },
+
+  events: {
+    impact: (label: string) => `影响：${label}`,
+  },
+
+  phase: {
+    range: (low: number, high: number, close: number) =>
+      `强度范围：${low} - ${high} · 收盘 ${close}`,
+    actions: "阶段操作",
+    regenerate: "重新生成此阶段",
+    drillDown: "放大此阶段",
+    regenerated: (label: string) => `本版重新生成了「${label}」`,
+    drilledFrom: (label: string) => `放大自「${label}」`,
+  },
+
+  tooltip: {
+    intensity: (low: number, high: number, close: number) =>
+      `强度：${low} - ${high} · 收盘 ${close}`,
+    zone: (label: string) => `区间标记：${label}`,
+    relation: "🧠 关系解读：",
+  },
+
+  zones: {
+    reality: "现实区间",
+    projection: "推演区间",
+  } as Record<TrendZone, string>,
+
+  impacts: {
+    push: "推动",
+    pullback: "回撤",
+    volatile: "波动",
+  } as Record<EventImpact, string>,
+
+  disclaimer: "本网站展示的是对走势的理解，而非精确数据或事实测量。",
+  footerTagline: "另眼观世界 · To see the world from a different perspective",
+};
+
+export type Messages = typeof zhCN;
+
+const en: Messages = {
+  localeSwitch: "中文",
+  heroTitle: "K-Line World",
+  heroSubtitle: "Clear at a glance",
+  placeholderSamples: [
+    "Blackpink's fame over time",
+    "Taylor Swift's popularity arc",
+    "How the major powers fared in WWII",
+    "Bill Gates's wealth over the decades",
+    "The hype cycle of AI startups",
+    "Attention to the Paris Olympics, peak and fade",
+  ],
+  quote: (text: string) => `"${text}"`,
+  generate: "Generate",
+  cancel: "Cancel",
+  quotaRemaining: (remaining: number, limit: number) =>
+    `Generations left today: ${remaining} / ${limit}`,
+
+  progress: {
+    start: "Reading your material…",
+    referencesEmpty: "No material provided, modelling from public information…",
+    referencesRead: (count: number) => `Read ${count} source(s)…`,
+    referencesPartial: (count: number, failed: number) =>
+      `Read ${count} source(s), ${failed} failed…`,
+    cacheHit: "Cache hit, returning the previous result…",
+    modelRetry: "Output was malformed, regenerating…",
+    model: "Generating…",
+    phases: (count: number) => `Parsed ${count} phase(s)…`,
+    repair: (issues: number, round: number) =>
+      `Found ${issues} issue(s), running repair round ${round}…`,
+    validated: "Validation passed, rendering…",
+  },
+
+  errors: {
+    generationFailed: "Generation failed, please try again later.",
+    emptyQuery: "Please describe the trend you want to explore.",
+    streamUnsupported: "Your browser does not support streaming responses.",
+    streamInterrupted: "Generation was interrupted, please try again.",
+    emptyResult: "The model returned no usable trend, please try again.",
+    withIssues: (base: string, shown: string[], total: number) =>
+      `${base} (${shown.join("; ")}${total > shown.length ? `, ${total} in total` : ""})`,
+    withDetails: (base: string, details: string[]) => `${base} (${details.join("; ")})`,
+    byCode: {
+      provider_error: "The model service is temporarily unavailable, please try again later.",
+      timeout: "The model did not respond in time, please try again later.",
+      unparseable: "The model output could not be parsed (already retried once).",
+      validation_failed: "The model output failed validation.",
+      aborted: "Generation was cancelled.",
+    },
+  },
+
+  hints: {
+    cancelled: "Generation cancelled.",
+    maxDocuments: "You can upload at most 5 files.",
+    documentsAdded: "Added as reference material.",
+    fileReadFailed: "Could not read the file, please try again.",
+    fileTooLarge: "Each file must be under 2 MB.",
+    exportUnavailable: "Export is not available right now.",
+    pngExported: "PNG exported",
+    clipboardUnsupported: "Clipboard is not available, please copy manually.",
+    jsonCopied: "JSON copied",
+    copyFailed: "Copy failed, please copy manually.",
+  },
+
+  evidence: {
+    title: "Add reference material (optional)",
+    subtitle: "The model reads these first and anchors the trend on them",
+    supplementPlaceholder: "Paste interviews, plot summaries, forum posts, report excerpts…",
+    remove: "Remove",
+    inUse: "Used as evidence",
+    addLink: "+ Add link",
+    uploadTitle: "Upload files / drop here",
+    uploadHint: "PDF / DOCX / TXT / Markdown · up to 2 MB each",
+    datasetTitle: "Upload a numeric series (CSV / JSON)",
+    datasetHint: "Time in the first column, values after it; phases are cut from the real data and the model only labels and explains them",
+    checking: "Reading…",
+    checkOk: (chars: number, language: string) => `Read ${chars} characters · ${language}`,
+    checkTruncated: "long; only the relevant parts will be used",
+    checkFailed: "Could not read",
+    languages: {
+      zh: "Chinese",
+      ja: "Japanese",
+      ko: "Korean",
+      en: "English",
+      other: "Other language",
+      unknown: "Language unknown",
+    },
+  },
+
+  meta: {
+    timeframe: (value: string) => `Timeframe: ${value}`,
+    phaseCount: (count: number) => `${count} phases`,
+    cutoffTitle: (date: string) => `Reality zone ends ${date}`,
+    cachedAt: (date: string) => `Cached at ${date}`,
+    fromCache: "From cache · click to regenerate",
+    relabelled: (count: number) =>
+      `${count} phase(s) past the data cutoff were relabelled as projection`,
+    dataset: (name: string, points: number) => `From uploaded data: ${name} (${points} points)`,
+  },
+
+  chart: {
+    primaryLegend: (subject: string) => `${subject} (lead)`,
+    secondaryLegend: (subject: string) => `${subject} (counterpart)`,
+    dualTag: (count: number) => `Dual line · ${count} phases`,
+    multiTag: (lines: number, count: number) => `${lines} lines · ${count} phases`,
+    rankedLegend: (subject: string, rank: number) => `${subject} (final #${rank})`,
+    showLine: "Click to show this line",
+    hideLine: "Click to hide this line",
+    singleTag: (count: number) => `${count} phases`,
+    seasonTick: (season: number) => `S${season}`,
+    yearTick: (year: number) => `${year}`,
+    axisWithUnit: (label: string, unit: string) => `${label} (${unit})`,
+  },
+
+  references: {
+    success: "✅ Your material was used as the factual anchor.",
+    partial: "⚠️ Only part of your material could be read; the sources below were used and the rest ignored.",
+    failed: "❌ Your material could not be read; fell back to public information.",
+    empty: "Generated from public information and model knowledge.",
+    supplementalText: "Your notes",
+    file: (name: string) => `File · ${name}`,
+    errorsTitle: "These sources could not be read and were ignored:",
+    chunksUsed: (used: number[], total: number) =>
+      `The model saw chunk${used.length > 1 ? "s" : ""} ${used.join(", ")} of ${total}, picked by relevance to your question`,
+    openSource: (label: string) => `View source: ${label}`,
+    publishedAt: (date: string) => `Published ${date}`,
+  },
+
+  axis: {
+    dual: "Dual axis",
+    single: "Single axis",
+    primary: "Y1 (right): ",
+    secondary: "Y2 (left): ",
+  },
+
+  relationFallback: "Comparison mode shows how the sides pull on each other along one timeline.",
+  counterpart: "Counterpart",
+  swappedSeries:
+    "Lines were reordered by final close: red always marks the side that finishes first.",
+  consistencyWarnings: "This text may disagree with the chart; trust the curves:",
+
+  sections: {
+    sourceDigest: "Source digest",
+    chartExplanation: "About this chart",
+    trendObservation: "Trend observation",
+    relationshipJudgment: "Relationship",
+    overallAnalysis: "Reading the trend",
+    prediction: "Projection (not fact)",
+    predictionNote:
+      "The following is a projection based on current information and is not a statement of fact.",
+  },
+
+  actions: {
+    toolbar: "Export tools",
+    exportPng: "Export PNG",
+    copyJson: "Copy JSON",
+  },
+
+  refine: {
+    title: "Keep refining this chart",
+    placeholder:
+      "e.g. split 2020 into two phases / add the 2023 break-up rumours / compare Jennie vs Lisa",
+    submit: "Revise",
+    emptyInstruction: "Please describe how the chart should change.",
+    undo: "Undo",
+    redo: "Redo",
+    revision: (current: number, total: number) => `Version ${current} of ${total}`,
+    lastInstruction: (instruction: string) => `This version: ${instruction}`,
+  },
+
+  insights: {
+    peak: "Narrative peak",
+    peakValue: (value: number) => `high ${value}`,
+    trough: "Low point",
+    troughValue: (value: number) => `low ${value}`,
+    momentum: "Overall momentum",
+    upTrend: "Uptrend",
+    downTrend: "Downtrend",
+    volatility: (value: number) => `Average swing about ${value} pts`,
+  },
+
+  events: {
+    impact: (label: string) => `Impact: ${label}`,
+  },
+
+  phase: {
+    range: (low: number, high: number, close: number) =>
+      `Range: ${low} - ${high} · close ${close}`,
+    actions: "Phase actions",
+    regenerate: "Regenerate this phase",
+    drillDown: "Zoom into this phase",
+    regenerated: (label: string) => `This version regenerated "${label}"`,
+    drilledFrom: (label: string) => `Zoomed in from "${label}"`,
+  },
+
+  tooltip: {
+    intensity: (low: number, high: number, close: number) =>
+      `Strength: ${low} - ${high} · close ${close}`,
+    zone: (label: string) => `Zone: ${label}`,
+    relation: "🧠 Relationship: ",
+  },
+
+  zones: {
+    reality: "Reality",
+    projection: "Projection",
+  },
+
+  impacts: {
+    push: "Push",
+    pullback: "Pullback",
+    volatile: "Volatile",
+  },
+
+  disclaimer:
+    "This site shows an interpretation of trends, not precise data or factual measurement.",
+  footerTagline: "To see the world from a different perspective",
+};
+
+const CATALOG: Record<Locale, Messages> = {
+  "zh-CN": zhCN,
+  en,
+};
+
+export const getMessages = (locale: Locale) => CATALOG[locale];
@@ -0,0 +1,113 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { sha256 } from "../cache";
+import {
+  CompletionRequest,
+  CompletionResult,
+  LlmProvider,
+  ProviderError,
+} from "./types";
+
+export type FixtureMode = "record" | "replay";
+
+/** One recorded provider call, stored as `<fingerprint>.json`. */
+export type ProviderFixture = {
+  fingerprint: string;
+  recorded_at: string;
+  provider: string;
+  model: string;
+  request: Pick<CompletionRequest, "messages" | "temperature">;
+  response: CompletionResult;
+};
+
+const REPLAY_MODEL = "replay";
+const REPLAY_CHUNK_SIZE = 64;
+
+/**
+ * Identifies a request by what the model actually sees. Provider and model are
+ * left out on purpose so a recording made against one backend replays under
+ * any configuration.
+ */
+export const fingerprintRequest = (request: CompletionRequest) =>
+  sha256(
+    JSON.stringify({
+      messages: request.messages.map(({ role, content }) => ({ role, content })),
+      temperature: request.temperature ?? null,
+    }),
+  );
+
+const fixturePath = (directory: string, fingerprint: string) =>
+  path.join(directory, `${fingerprint}.json`);
+
+export const readFixture = async (directory: string, fingerprint: string) => {
+  try {
+    const raw = await readFile(fixturePath(directory, fingerprint), "utf8");
+    return JSON.parse(raw) as ProviderFixture;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Wraps a real provider and writes every successful call to `directory`.
+ * Failed calls are not recorded, and write errors never fail the request.
+ */
+export const withRecording = (
+  provider: LlmProvider,
+  { directory }: { directory: string },
+): LlmProvider => {
+  const complete = async (request: CompletionRequest) => {
+    const response = await provider.complete(request);
+    const fingerprint = fingerprintRequest(request);
+    const fixture: ProviderFixture = {
+      fingerprint,
+      recorded_at: new Date().toISOString(),
+      provider: provider.id,
+      model: provider.model,
+      request: { messages: request.messages, temperature: request.temperature },
+      response,
+    };
+    try {
+      await mkdir(directory, { recursive: true });
+      await writeFile(
+        fixturePath(directory, fingerprint),
+        JSON.stringify(fixture, null, 2),
+        "utf8",
+      );
+    } catch (error) {
+      console.error("Failed to record provider fixture", fingerprint, error);
+    }
+    return response;
+  };
+
+  return { ...provider, complete };
+};
+
+/**
+ * Serves recorded responses instead of calling a model. Streaming callers get
+ * the recorded content back in fixed-size chunks so the phase scanner and the
+ * SSE path behave as they would live. A missing fixture is a provider error
+ * whose details carry the fingerprint to look for.
+ */
+export const createReplayProvider = ({ directory }: { directory: string }): LlmProvider => {
+  const complete = async (request: CompletionRequest): Promise<CompletionResult> => {
+    const fingerprint = fingerprintRequest(request);
+    const fixture = await readFixture(directory, fingerprint);
+    if (!fixture) {
+      throw new ProviderError("未找到与本次请求匹配的录制响应。", {
+        status: 404,
+        details: `${fixturePath(directory, fingerprint)} 不存在`,
+      });
+    }
+    const content = fixture.response.content ?? "";
+    if (request.onDelta) {
+      for (let offset = 0; offset < content.length; offset += REPLAY_CHUNK_SIZE) {
+        request.signal?.throwIfAborted();
+        request.onDelta(content.slice(offset, offset + REPLAY_CHUNK_SIZE));
+      }
+    }
+    return fixture.response;
+  };
+
+  return { id: "replay", label: "Replay", model: REPLAY_MODEL, complete };
+};
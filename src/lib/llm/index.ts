@@ -0,0 +1,100 @@
+import { createReplayProvider, FixtureMode, withRecording } from "./fixtures";
+import { createMockProvider } from "./mock";
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
+import { LlmProvider, ProviderConfigError } from "./types";
+
+export * from "./types";
+export { fingerprintRequest } from "./fixtures";
+export type { FixtureMode, ProviderFixture } from "./fixtures";
+
+const DEEPSEEK_BASE_URL = "https://api.deepseek.com";
+const DEEPSEEK_MODEL = "deepseek-chat";
+const DEFAULT_TEMPERATURE = 0.2;
+const DEFAULT_FIXTURES_DIR = ".fixtures/llm";
+
+type ProviderEnv = Record<string, string | undefined>;
+
+const parseTemperature = (value?: string) => {
+  if (!value?.trim()) {
+    return DEFAULT_TEMPERATURE;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0 || parsed > 2) {
+    throw new ProviderConfigError(`LLM_TEMPERATURE 无效：${value}`);
+  }
+  return parsed;
+};
+
+const parseFixtureMode = (value?: string): FixtureMode | null => {
+  const mode = value?.trim().toLowerCase();
+  if (!mode || mode === "off") {
+    return null;
+  }
+  if (mode === "record" || mode === "replay") {
+    return mode;
+  }
+  throw new ProviderConfigError(`LLM_FIXTURES 无效：${value}`);
+};
+
+const createBaseProvider = (env: ProviderEnv): LlmProvider => {
+  const providerId = (env.LLM_PROVIDER ?? "deepseek").trim().toLowerCase();
+  const temperature = parseTemperature(env.LLM_TEMPERATURE);
+
+  if (providerId === "mock") {
+    return createMockProvider();
+  }
+
+  if (providerId === "deepseek") {
+    const apiKey = env.DEEPSEEK_API_KEY ?? env.LLM_API_KEY;
+    if (!apiKey) {
+      throw new ProviderConfigError("服务器缺少 DEEPSEEK_API_KEY，无法生成走势。");
+    }
+    return createOpenAICompatibleProvider({
+      id: "deepseek",
+      label: "DeepSeek",
+      baseUrl: env.LLM_BASE_URL || DEEPSEEK_BASE_URL,
+      model: env.LLM_MODEL || DEEPSEEK_MODEL,
+      apiKey,
+      temperature,
+    });
+  }
+
+  if (providerId === "openai-compatible" || providerId === "openai") {
+    const baseUrl = env.LLM_BASE_URL?.trim();
+    const model = env.LLM_MODEL?.trim();
+    if (!baseUrl || !model) {
+      throw new ProviderConfigError(
+        "使用 OpenAI 兼容接口时需要同时配置 LLM_BASE_URL 与 LLM_MODEL。",
+      );
+    }
+    return createOpenAICompatibleProvider({
+      id: "openai-compatible",
+      label: "模型",
+      baseUrl,
+      model,
+      apiKey: env.LLM_API_KEY,
+      temperature,
+    });
+  }
+
+  throw new ProviderConfigError(`未知的 LLM_PROVIDER：${providerId}`);
+};
+
+/**
+ * Builds the model provider from environment variables.
+ *
+ * - `LLM_PROVIDER`: `deepseek`（默认）/ `openai-compatible` / `mock`
+ * - `LLM_BASE_URL`: OpenAI 兼容接口地址，如 `http://localhost:11434/v1`
+ * - `LLM_API_KEY`: 通用密钥；DeepSeek 仍兼容 `DEEPSEEK_API_KEY`
+ * - `LLM_MODEL` / `LLM_TEMPERATURE`: 覆盖模型名与采样温度
+ * - `LLM_FIXTURES`: `record` 把每次调用写入 `LLM_FIXTURES_DIR`；`replay` 只从中回放，不联网也不需要密钥
+ */
+export const createProviderFromEnv = (env: ProviderEnv = process.env): LlmProvider => {
+  const fixtureMode = parseFixtureMode(env.LLM_FIXTURES);
+  const directory = env.LLM_FIXTURES_DIR?.trim() || DEFAULT_FIXTURES_DIR;
+  if (fixtureMode === "replay") {
+    return createReplayProvider({ directory });
+  }
+  const provider = createBaseProvider(env);
+  return fixtureMode === "record" ? withRecording(provider, { directory }) : provider;
+};
@@ -0,0 +1,257 @@
+import { formatMonthStamp, MonthStamp, resolvePhaseBoundary, toMonthIndex } from "../trend/cutoff";
+import { CompletionRequest, CompletionResult, LlmProvider } from "./types";
+
+const MOCK_MODEL = "mock-trend-v1";
+const MOCK_CHUNK_SIZE = 64;
+
+const hashString = (value: string) => {
+  let hash = 2166136261;
+  for (let index = 0; index < value.length; index++) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+const createRandom = (seed: number) => {
+  let state = seed || 1;
+  return () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return ((state >>> 0) % 10000) / 10000;
+  };
+};
+
+const MOCK_COPY = {
+  zh: {
+    fallbackSubject: "示例主体",
+    phaseLabel: (index: number, rising: boolean) =>
+      `阶段 ${index}：${rising ? "走强" : "回撤"}`,
+    event: (query: string, index: number) => `「${query}」的模拟事件 ${index}`,
+    metric: "模拟叙事强度",
+    cutoff: (year: number) => `现实数据截至：${year}年12月`,
+    digest:
+      "这是由离线模拟模型生成的确定性结果，仅用于开发与测试，不代表任何真实资料或事实判断。",
+    analysis: (query: string) =>
+      `这是「${query}」的模拟走势，用于在没有真实模型的情况下验证接口与页面渲染。`,
+    rationale: "模拟数据仅使用单一叙事评分。",
+    axisDescription: "根据提问文本哈希生成的确定性数值。",
+    chartExplanation: "模拟模式：单纵轴展示 0-100 的叙事评分。",
+    trendObservation: "模拟模式：走势由固定随机种子生成，仅用于联调。",
+    relationshipJudgment: "模拟模式：不做任何关系判断。",
+    prediction: "以下内容为基于当前信息的推演判断，不构成事实描述。（模拟数据）",
+    refined: (instruction: string) => `（已按要求修改：${instruction}）`,
+  },
+  en: {
+    fallbackSubject: "Sample subject",
+    phaseLabel: (index: number, rising: boolean) =>
+      `Phase ${index}: ${rising ? "gaining" : "pulling back"}`,
+    event: (query: string, index: number) => `Mock event ${index} for "${query}"`,
+    metric: "Mock narrative strength",
+    cutoff: (year: number) => `Real data as of: ${year}-12`,
+    digest:
+      "Deterministic output from the offline mock model, for development and testing only. It does not reflect any real material or factual judgement.",
+    analysis: (query: string) =>
+      `This is a mock trend for "${query}", used to exercise the API and page rendering without a real model.`,
+    rationale: "Mock data uses a single narrative score.",
+    axisDescription: "Deterministic values derived from a hash of the question.",
+    chartExplanation: "Mock mode: a single axis shows a 0-100 narrative score.",
+    trendObservation: "Mock mode: the trend comes from a fixed random seed and is only for integration testing.",
+    relationshipJudgment: "Mock mode: no relationship is assessed.",
+    prediction:
+      "The following is a projection based on current information and is not a statement of fact. (mock data)",
+    refined: (instruction: string) => `(Revised as requested: ${instruction})`,
+  },
+};
+
+type MockCopy = (typeof MOCK_COPY)["zh"];
+
+/** Reads the question back out of the user prompt; the marker also tells us which locale template was used. */
+const extractQuery = (content: string) => {
+  const zh = content.match(/【用户原始提问】\s*\n([^\n]+)/);
+  const en = content.match(/\[User question\]\s*\n([^\n]+)/);
+  const copy = en && !zh ? MOCK_COPY.en : MOCK_COPY.zh;
+  const query = (zh ?? en)?.[1]?.trim() || content.slice(0, 40).trim() || copy.fallbackSubject;
+  return { query, copy };
+};
+
+/** Number of phases an uploaded series was cut into, read from its table in the prompt. */
+const countDatasetPhases = (content: string) =>
+  content.match(/^\d+\. .+ - .+(?:：开 |: open )/gm)?.length;
+
+/** Highest `【参考N】` number in the prompt, so mock events can cite real references. */
+const countReferences = (content: string) =>
+  Math.max(0, ...Array.from(content.matchAll(/【参考(\d+) · /g), (match) => Number(match[1])));
+
+/** The span a drill-down prompt asks sub-phases to stay within, when it is a calendar span. */
+const readDrillDownSpan = (content: string) => {
+  const span = content.match(/时间标签必须落在 (.+?) 之内|time labels must fall within (.+?);/);
+  const [start, end] = (span?.[1] ?? span?.[2] ?? "").split(" – ");
+  const from = resolvePhaseBoundary(start, "start");
+  const to = resolvePhaseBoundary(end, "end");
+  return from && to && toMonthIndex(to) >= toMonthIndex(from) ? { from, to } : undefined;
+};
+
+const fromMonthIndex = (index: number): MonthStamp => ({
+  year: Math.floor(index / 12),
+  month: (index % 12) + 1,
+});
+
+/** Phase time labels: two-year steps ending in 2025, or equal month slices of a drill-down span. */
+const buildMockSpans = (phaseCount: number, span?: { from: MonthStamp; to: MonthStamp }) => {
+  if (!span) {
+    const startYear = 2026 - phaseCount * 2;
+    return Array.from({ length: phaseCount }, (_, index) => ({
+      start: startYear + index * 2,
+      end: startYear + index * 2 + 1,
+    }));
+  }
+  const first = toMonthIndex(span.from);
+  const months = toMonthIndex(span.to) - first + 1;
+  const count = Math.min(phaseCount, months);
+  return Array.from({ length: count }, (_, index) => ({
+    start: formatMonthStamp(fromMonthIndex(first + Math.floor((index * months) / count))),
+    end: formatMonthStamp(fromMonthIndex(first + Math.floor(((index + 1) * months) / count) - 1)),
+  }));
+};
+
+const buildMockPayload = (
+  query: string,
+  copy: MockCopy,
+  {
+    fixedPhases,
+    referenceCount = 0,
+    span,
+  }: {
+    fixedPhases?: number;
+    referenceCount?: number;
+    span?: { from: MonthStamp; to: MonthStamp };
+  } = {},
+) => {
+  const random = createRandom(hashString(query));
+  const spans = buildMockSpans(fixedPhases ?? 5 + Math.floor(random() * 4), span);
+  const phaseCount = spans.length;
+  const startYear = 2026 - phaseCount * 2;
+  // A drill-down stays inside real history; otherwise the last phase is a projection.
+  const cutoffYear = span ? span.to.year : startYear + (phaseCount - 1) * 2 - 1;
+  let previousClose = 10 + Math.round(random() * 20);
+
+  const phases = Array.from({ length: phaseCount }, (_, index) => {
+    const open = previousClose;
+    const drift = Math.round((random() - 0.35) * 30);
+    const close = Math.min(Math.max(open + drift, 2), 98);
+    const high = Math.min(Math.max(open, close) + Math.round(random() * 8), 100);
+    const low = Math.max(Math.min(open, close) - Math.round(random() * 8), 0);
+    previousClose = close;
+    const { start, end } = spans[index];
+    const isProjection = !span && index === phaseCount - 1;
+    return {
+      start_year: start,
+      end_year: end,
+      open,
+      high,
+      low,
+      close,
+      label: copy.phaseLabel(index + 1, drift >= 0),
+      zone: isProjection ? "projection" : "reality",
+      key_events: [
+        {
+          time: typeof start === "number" ? `${start}-06` : start,
+          description: copy.event(query, index + 1),
+          impact: drift >= 0 ? "push" : "pullback",
+          ...(referenceCount ? { source_refs: [(index % referenceCount) + 1] } : {}),
+        },
+      ],
+    };
+  });
+
+  return {
+    subject: query,
+    metric: copy.metric,
+    timeframe: `${spans[0].start}-${spans[phaseCount - 1].end}`,
+    data_cutoff: copy.cutoff(cutoffYear),
+    source_digest: copy.digest,
+    phases,
+    overall_analysis: copy.analysis(query),
+    chart_notes: {
+      mode: "single_axis",
+      rationale: copy.rationale,
+      primary_axis: {
+        label: copy.metric,
+        unit: "0-100",
+        kind: "subjective",
+        description: copy.axisDescription,
+      },
+    },
+    analysis_modules: {
+      chart_explanation: copy.chartExplanation,
+      trend_observation: copy.trendObservation,
+      relationship_judgment: copy.relationshipJudgment,
+    },
+    prediction_commentary: copy.prediction,
+  };
+};
+
+/**
+ * A refinement turn carries the previous chart as an assistant message; the
+ * mock echoes it back unchanged apart from a note in `overall_analysis`, which
+ * is enough to exercise revision history without a real model.
+ */
+const buildMockRefinement = (
+  previous: string,
+  instructionTurn: string,
+  copy: MockCopy,
+) => {
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(previous);
+  } catch {
+    return null;
+  }
+  const instruction =
+    instructionTurn.match(/[「"]([^」"\n]+)[」"]/)?.[1]?.trim() ?? instructionTurn.slice(0, 40);
+  const analysis =
+    typeof payload.overall_analysis === "string" ? payload.overall_analysis : "";
+  return { ...payload, overall_analysis: `${analysis}${copy.refined(instruction)}` };
+};
+
+/**
+ * Offline provider that returns a deterministic, schema-valid payload derived
+ * from the user prompt. Same prompt in, same chart out.
+ */
+export const createMockProvider = (): LlmProvider => {
+  const complete = async (request: CompletionRequest): Promise<CompletionResult> => {
+    const userMessages = request.messages.filter((message) => message.role === "user");
+    const previous = [...request.messages]
+      .reverse()
+      .find((message) => message.role === "assistant");
+    const { query, copy } = extractQuery(userMessages[0]?.content ?? "");
+    const payload =
+      (previous &&
+        buildMockRefinement(
+          previous.content,
+          userMessages[userMessages.length - 1]?.content ?? "",
+          copy,
+        )) ||
+      buildMockPayload(query, copy, {
+        fixedPhases: countDatasetPhases(userMessages[0]?.content ?? ""),
+        referenceCount: countReferences(userMessages[0]?.content ?? ""),
+        span: readDrillDownSpan(userMessages[0]?.content ?? ""),
+      });
+    const content = JSON.stringify(payload, null, 2);
+    if (request.onDelta) {
+      for (let offset = 0; offset < content.length; offset += MOCK_CHUNK_SIZE) {
+        request.signal?.throwIfAborted();
+        request.onDelta(content.slice(offset, offset + MOCK_CHUNK_SIZE));
+      }
+    }
+    return {
+      content,
+      model: MOCK_MODEL,
+      usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    };
+  };
+
+  return { id: "mock", label: "Mock", model: MOCK_MODEL, complete };
+};
@@ -0,0 +1,132 @@
+import { createSseParser } from "../streaming/sse";
+import {
+  CompletionRequest,
+  CompletionResult,
+  CompletionUsage,
+  LlmProvider,
+  ProviderError,
+} from "./types";
+
+type OpenAICompatibleOptions = {
+  id: string;
+  label: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  temperature?: number;
+};
+
+type ChatCompletionChoice = {
+  message?: { content?: string };
+  delta?: { content?: string };
+};
+
+type ChatCompletionResponse = {
+  model?: string;
+  choices?: ChatCompletionChoice[];
+  usage?: CompletionUsage;
+};
+
+const trimTrailingSlash = (value: string) => value.replace(/\/+$/, "");
+
+const readStreamedCompletion = async (
+  response: Response,
+  model: string,
+  onDelta: (delta: string) => void,
+): Promise<CompletionResult> => {
+  let content = "";
+  let resolvedModel = model;
+  let usage: CompletionUsage | undefined;
+
+  const feed = createSseParser(({ data }) => {
+    if (data === "[DONE]") {
+      return;
+    }
+    try {
+      const chunk = JSON.parse(data) as ChatCompletionResponse;
+      resolvedModel = chunk.model ?? resolvedModel;
+      usage = chunk.usage ?? usage;
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+    } catch {
+      // Ignore keep-alive comments or partial frames from the upstream.
+    }
+  });
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    return { content: null, model: resolvedModel };
+  }
+  const decoder = new TextDecoder();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    feed(decoder.decode(value, { stream: true }));
+  }
+  feed(`${decoder.decode()}\n\n`);
+
+  return { content: content || null, model: resolvedModel, usage };
+};
+
+/**
+ * Provider for any server that speaks the OpenAI `/chat/completions` dialect:
+ * DeepSeek, OpenAI itself, or a local Ollama / llama.cpp server.
+ */
+export const createOpenAICompatibleProvider = ({
+  id,
+  label,
+  baseUrl,
+  model,
+  apiKey,
+  temperature = 0.2,
+}: OpenAICompatibleOptions): LlmProvider => {
+  const endpoint = `${trimTrailingSlash(baseUrl)}/chat/completions`;
+
+  const complete = async (request: CompletionRequest): Promise<CompletionResult> => {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers,
+      signal: request.signal,
+      body: JSON.stringify({
+        model,
+        temperature: request.temperature ?? temperature,
+        messages: request.messages,
+        stream: Boolean(request.onDelta),
+        ...(request.onDelta ? { stream_options: { include_usage: true } } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      const details = await response.text().catch(() => "");
+      throw new ProviderError(`${label} 接口暂时不可用，请稍后重试。`, {
+        status: response.status,
+        details,
+      });
+    }
+
+    if (request.onDelta) {
+      return readStreamedCompletion(response, model, request.onDelta);
+    }
+
+    const payload = (await response.json()) as ChatCompletionResponse;
+    return {
+      content: payload.choices?.[0]?.message?.content ?? null,
+      model: payload.model ?? model,
+      usage: payload.usage,
+    };
+  };
+
+  return { id, label, model, complete };
+};
@@ -0,0 +1,54 @@
+export type ChatRole = "system" | "user" | "assistant";
+
+export type ChatMessage = {
+  role: ChatRole;
+  content: string;
+};
+
+export type CompletionRequest = {
+  messages: ChatMessage[];
+  temperature?: number;
+  /** When set, the provider streams and reports each content delta. */
+  onDelta?: (delta: string) => void;
+  signal?: AbortSignal;
+};
+
+export type CompletionUsage = {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+};
+
+export type CompletionResult = {
+  content: string | null;
+  model: string;
+  usage?: CompletionUsage;
+};
+
+export type LlmProvider = {
+  /** Stable identifier used in config and logs, e.g. `deepseek`. */
+  id: string;
+  /** Human readable name surfaced in error messages. */
+  label: string;
+  model: string;
+  complete: (request: CompletionRequest) => Promise<CompletionResult>;
+};
+
+export class ProviderError extends Error {
+  status?: number;
+  details?: string;
+
+  constructor(message: string, options: { status?: number; details?: string } = {}) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = options.status;
+    this.details = options.details;
+  }
+}
+
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProviderConfigError";
+  }
+}
@@ -0,0 +1,272 @@
+import type { UploadedDocument } from "./references";
+
+const MAX_FILE_BYTES = 2 * 1024 * 1024;
+const MAX_FIELD_BYTES = 1024 * 1024;
+/** Whole request body, multipart framing included: 5 documents + a dataset + the payload. */
+const MAX_BODY_BYTES = 16 * 1024 * 1024;
+const MAX_HEADER_BYTES = 16 * 1024;
+
+const CRLF = Buffer.from("\r\n");
+const HEADER_END = Buffer.from("\r\n\r\n");
+
+export class UploadError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "UploadError";
+    this.status = status;
+  }
+}
+
+export type MultipartFile = {
+  field: string;
+  name: string;
+  type: string;
+  data: Buffer;
+};
+
+export type MultipartForm = {
+  fields: { name: string; value: string }[];
+  files: MultipartFile[];
+};
+
+type OpenPart = {
+  field: string;
+  /** Set for file parts, even when empty. */
+  filename?: string;
+  type: string;
+  chunks: Buffer[];
+  size: number;
+};
+
+const formatMegabytes = (bytes: number) => `${bytes / 1024 / 1024}MB`;
+
+const readBoundary = (contentType: string) => {
+  const match = contentType.match(/boundary=(?:"([^"]+)"|([^;\s]+))/i);
+  const boundary = match?.[1] ?? match?.[2];
+  if (!boundary) {
+    throw new UploadError("表单缺少 boundary。");
+  }
+  return boundary;
+};
+
+/** `Content-Disposition` name / filename (`filename*` preferred) and `Content-Type` of a part. */
+const parsePartHeaders = (block: Buffer): OpenPart => {
+  const headers = new Map<string, string>();
+  block
+    .toString("utf8")
+    .split("\r\n")
+    .forEach((line) => {
+      const colon = line.indexOf(":");
+      if (colon > 0) {
+        headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim());
+      }
+    });
+  const disposition = headers.get("content-disposition") ?? "";
+  const field = disposition.match(/(?:^|;)\s*name="([^"]*)"/i)?.[1];
+  if (!field) {
+    throw new UploadError("表单字段缺少名称。");
+  }
+  const encoded = disposition.match(/(?:^|;)\s*filename\*=(?:utf-8'[^']*')?([^;]+)/i)?.[1];
+  let filename = disposition.match(/(?:^|;)\s*filename="([^"]*)"/i)?.[1];
+  if (encoded) {
+    try {
+      filename = decodeURIComponent(encoded.trim());
+    } catch {
+      // Keep the plain `filename` when `filename*` is malformed.
+    }
+  }
+  return {
+    field,
+    filename,
+    type: headers.get("content-type") ?? "",
+    chunks: [],
+    size: 0,
+  };
+};
+
+/**
+ * Streams a `multipart/form-data` body and enforces the limits while
+ * reading: 2MB per file, 1MB per text field and 16MB for the whole body. The
+ * upload is cancelled as soon as a limit is crossed, so an oversized file is
+ * never buffered in full. Throws `UploadError` with a user-facing message.
+ */
+export const parseMultipart = async (request: Request): Promise<MultipartForm> => {
+  const boundary = readBoundary(request.headers.get("content-type") ?? "");
+  if (!request.body) {
+    throw new UploadError("表单数据不完整。");
+  }
+  // Every boundary, the first included once a CRLF is prepended, is `\r\n--boundary`.
+  const delimiter = Buffer.from(`\r\n--${boundary}`);
+  const form: MultipartForm = { fields: [], files: [] };
+  let state: "preamble" | "boundary" | "headers" | "body" | "done" = "preamble";
+  let buffer: Buffer = CRLF;
+  let part: OpenPart | null = null;
+  let received = 0;
+
+  const append = (current: OpenPart, bytes: Buffer) => {
+    if (!bytes.byteLength) {
+      return;
+    }
+    current.size += bytes.byteLength;
+    if (current.filename !== undefined && current.size > MAX_FILE_BYTES) {
+      throw new UploadError(
+        `文件超过 ${formatMegabytes(MAX_FILE_BYTES)} 限制：${current.filename}`,
+        413,
+      );
+    }
+    if (current.filename === undefined && current.size > MAX_FIELD_BYTES) {
+      throw new UploadError(`表单字段过大：${current.field}`, 413);
+    }
+    current.chunks.push(bytes);
+  };
+
+  const close = (current: OpenPart) => {
+    const data = Buffer.concat(current.chunks, current.size);
+    if (current.filename === undefined) {
+      form.fields.push({ name: current.field, value: data.toString("utf8") });
+      return;
+    }
+    // Browsers send an empty part for a file input left blank.
+    if (current.filename || data.byteLength) {
+      form.files.push({
+        field: current.field,
+        name: current.filename || current.field,
+        type: current.type,
+        data,
+      });
+    }
+  };
+
+  /** Parses what has arrived; true once the closing boundary is seen. */
+  const consume = () => {
+    for (;;) {
+      if (state === "preamble") {
+        const index = buffer.indexOf(delimiter);
+        if (index < 0) {
+          buffer = buffer.subarray(Math.max(0, buffer.length - delimiter.length + 1));
+          return false;
+        }
+        buffer = buffer.subarray(index + delimiter.length);
+        state = "boundary";
+      } else if (state === "boundary") {
+        if (buffer.length < 2) {
+          return false;
+        }
+        const marker = buffer.subarray(0, 2).toString("latin1");
+        if (marker === "--") {
+          state = "done";
+          return true;
+        }
+        if (marker !== "\r\n") {
+          throw new UploadError("表单数据格式错误。");
+        }
+        buffer = buffer.subarray(2);
+        state = "headers";
+      } else if (state === "headers") {
+        const index = buffer.indexOf(HEADER_END);
+        if (index < 0) {
+          if (buffer.length > MAX_HEADER_BYTES) {
+            throw new UploadError("表单数据格式错误。");
+          }
+          return false;
+        }
+        part = parsePartHeaders(buffer.subarray(0, index));
+        buffer = buffer.subarray(index + HEADER_END.length);
+        state = "body";
+      } else if (state === "body" && part) {
+        const index = buffer.indexOf(delimiter);
+        if (index < 0) {
+          // Hold back what could be the start of a delimiter split across chunks.
+          const safe = Math.max(0, buffer.length - delimiter.length + 1);
+          append(part, Buffer.from(buffer.subarray(0, safe)));
+          buffer = buffer.subarray(safe);
+          return false;
+        }
+        append(part, Buffer.from(buffer.subarray(0, index)));
+        close(part);
+        part = null;
+        buffer = buffer.subarray(index + delimiter.length);
+        state = "boundary";
+      } else {
+        return state === "done";
+      }
+    }
+  };
+
+  const reader = request.body.getReader();
+  let finished = false;
+  try {
+    while (!finished) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      received += value.byteLength;
+      if (received > MAX_BODY_BYTES) {
+        throw new UploadError(
+          `上传内容总大小超过 ${formatMegabytes(MAX_BODY_BYTES)} 限制。`,
+          413,
+        );
+      }
+      buffer = buffer.length ? Buffer.concat([buffer, value]) : Buffer.from(value);
+      finished = consume();
+    }
+  } catch (error) {
+    await reader.cancel().catch(() => {});
+    throw error;
+  }
+  if (!finished) {
+    throw new UploadError("表单数据不完整。");
+  }
+  await reader.cancel().catch(() => {});
+  return form;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const toDocument = (file: MultipartFile): UploadedDocument => ({
+  name: file.name,
+  type: file.type,
+  data: file.data,
+});
+
+/**
+ * Body of a generation or preview request, sent either as JSON (files as
+ * base64 `content`) or as `multipart/form-data`: a `payload` field holding
+ * the same JSON without the files, plus `documents` file parts (repeatable)
+ * and an optional `dataset` file part. Multipart files carry raw `data`.
+ * Throws `UploadError` (also for a body that is not a JSON object), or
+ * `SyntaxError` for malformed JSON.
+ */
+export const readRequestBody = async <Body>(request: Request): Promise<Body> => {
+  const contentType = request.headers.get("content-type") ?? "";
+  if (!/^multipart\/form-data/i.test(contentType.trim())) {
+    const parsed: unknown = await request.json();
+    if (!isRecord(parsed)) {
+      throw new UploadError("请求体必须是 JSON 对象。");
+    }
+    return parsed as Body;
+  }
+  const form = await parseMultipart(request);
+  const payload = form.fields.find((field) => field.name === "payload")?.value;
+  let body: Record<string, unknown> = {};
+  if (payload) {
+    const parsed: unknown = JSON.parse(payload);
+    if (!isRecord(parsed)) {
+      throw new UploadError("payload 字段必须是 JSON 对象。");
+    }
+    body = parsed;
+  }
+  const documents = form.files.filter((file) => file.field === "documents").map(toDocument);
+  if (documents.length) {
+    body.documents = [...(Array.isArray(body.documents) ? body.documents : []), ...documents];
+  }
+  const dataset = form.files.find((file) => file.field === "dataset");
+  if (dataset) {
+    body.dataset = toDocument(dataset);
+  }
+  return body as Body;
+};
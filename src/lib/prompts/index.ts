@@ -0,0 +1,123 @@
+import { sha256 } from "../cache";
+import type { Locale } from "../i18n/locale";
+import { PromptDefinition, PromptTemplates } from "./types";
+import { promptV1 } from "./v1";
+import { promptV2 } from "./v2";
+import { promptV3 } from "./v3";
+import { promptV4 } from "./v4";
+
+export * from "./types";
+
+type PromptEnv = Record<string, string | undefined>;
+
+export const PROMPT_REGISTRY: Record<string, PromptDefinition> = {
+  [promptV1.version]: promptV1,
+  [promptV2.version]: promptV2,
+  [promptV3.version]: promptV3,
+  [promptV4.version]: promptV4,
+};
+
+export const DEFAULT_PROMPT_VERSION = promptV4.version;
+
+/** One version's templates for one locale. */
+export type ResolvedPrompt = PromptTemplates & {
+  version: string;
+  locale: Locale;
+};
+
+export class PromptVersionError extends Error {
+  version: string;
+  locale: Locale;
+
+  constructor(version: string, locale: Locale) {
+    super(`Unknown prompt version for ${locale}: ${version}`);
+    this.name = "PromptVersionError";
+    this.version = version;
+    this.locale = locale;
+  }
+}
+
+export const listPromptVersions = (locale?: Locale) =>
+  Object.values(PROMPT_REGISTRY)
+    .filter((prompt) => !locale || prompt.locales[locale])
+    .map((prompt) => prompt.version);
+
+const supports = (version: string, locale: Locale) =>
+  Boolean(PROMPT_REGISTRY[version]?.locales[locale]);
+
+export const getPrompt = (version: string, locale: Locale): ResolvedPrompt => {
+  const templates = PROMPT_REGISTRY[version]?.locales[locale];
+  if (!templates) {
+    throw new PromptVersionError(version, locale);
+  }
+  return { ...templates, version, locale };
+};
+
+/** Short hash of the prompt text; part of the cache key so edits never serve stale results. */
+export const fingerprintPrompt = (prompt: ResolvedPrompt) =>
+  sha256(
+    [
+      prompt.system,
+      prompt.user("", { referenceStatus: "empty", referenceSources: [] }),
+      prompt.referenceInstruction(""),
+      prompt.jsonHint,
+      prompt.repair([], 0),
+    ].join("\n"),
+  ).slice(0, 12);
+
+/**
+ * Parses `PROMPT_AB_WEIGHTS`, e.g. `v2:20,v3:80`. Unknown versions, versions
+ * without the requested locale and non-positive weights are dropped; an empty
+ * result means "no split".
+ */
+export const readPromptWeights = (locale: Locale, env: PromptEnv = process.env) => {
+  const weights: [string, number][] = [];
+  for (const entry of (env.PROMPT_AB_WEIGHTS ?? "").split(",")) {
+    const [version, weight] = entry.split(":").map((part) => part?.trim());
+    const parsed = Number(weight);
+    if (version && supports(version, locale) && Number.isFinite(parsed) && parsed > 0) {
+      weights.push([version, parsed]);
+    }
+  }
+  return weights;
+};
+
+/**
+ * Picks the prompt for one request: an explicit version wins, then the
+ * weighted split, then `PROMPT_VERSION`, then the built-in default. Versions
+ * that lack the request locale are skipped (an explicit one is an error). The split
+ * buckets on `stickyKey` (the normalised prompt) so repeated questions land on
+ * the same variant and keep hitting the cache.
+ */
+export const selectPrompt = ({
+  requested,
+  locale,
+  stickyKey,
+  env = process.env,
+}: {
+  requested?: string;
+  locale: Locale;
+  stickyKey: string;
+  env?: PromptEnv;
+}): ResolvedPrompt => {
+  if (requested) {
+    return getPrompt(requested, locale);
+  }
+  const weights = readPromptWeights(locale, env);
+  if (weights.length) {
+    const total = weights.reduce((sum, [, weight]) => sum + weight, 0);
+    const point = (parseInt(sha256(stickyKey).slice(0, 8), 16) / 0x100000000) * total;
+    let cumulative = 0;
+    for (const [version, weight] of weights) {
+      cumulative += weight;
+      if (point < cumulative) {
+        return getPrompt(version, locale);
+      }
+    }
+  }
+  const configured = env.PROMPT_VERSION?.trim();
+  if (configured && supports(configured, locale)) {
+    return getPrompt(configured, locale);
+  }
+  return getPrompt(DEFAULT_PROMPT_VERSION, locale);
+};
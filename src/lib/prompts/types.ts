@@ -0,0 +1,70 @@
+import type { Locale } from "../i18n/locale";
+
+export type PromptContext = {
+  referenceBlock?: string;
+  referenceStatus: "empty" | "success" | "partial" | "failed";
+  referenceSources: { type: string; source: string }[];
+};
+
+/** The phase a「重新生成此阶段」request targets. */
+export type PhaseTarget = {
+  /** e.g. `phases[2]` or `series[0].phases[2]` */
+  path: string;
+  label: string;
+  span: string;
+};
+
+/** What a drill-down sub-chart must stay anchored to. */
+export type DrillDownAnchor = {
+  subject: string;
+  metric: string;
+  label: string;
+  span: string;
+  open: number;
+  close: number;
+  low: number;
+  high: number;
+  /** `time：description` lines taken from the parent phase's key_events. */
+  events: string[];
+};
+
+/** A numeric series the user uploaded, already cut into phases by the server. */
+export type DatasetBrief = {
+  name: string;
+  metric?: string;
+  unit?: string;
+  points: number;
+  phases: {
+    start: string | number;
+    end: string | number;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+  }[];
+};
+
+export type PromptTemplates = {
+  system: string;
+  user: (query: string, context: PromptContext) => string;
+  /** Extra system message sent when the user supplied reference material. */
+  referenceInstruction: (referenceBlock: string) => string;
+  /** Appended to the user prompt when the previous output was not parseable. */
+  jsonHint: string;
+  /** Follow-up turn listing validation issues; `overflow` counts the ones not listed. */
+  repair: (issueLines: string[], overflow: number) => string;
+  /** Follow-up turn asking for a revision of the previous chart. */
+  refine: (instruction: string) => string;
+  /** Follow-up turn asking for a single phase to be redone; `note` is optional user guidance. */
+  regeneratePhase: (target: PhaseTarget, note?: string) => string;
+  /** Appended to the user prompt when zooming into one phase of an existing chart. */
+  drillDown: (anchor: DrillDownAnchor) => string;
+  /** Appended to the user prompt when the phases come from an uploaded series. */
+  dataset: (brief: DatasetBrief) => string;
+};
+
+export type PromptDefinition = {
+  version: string;
+  description: string;
+  locales: Partial<Record<Locale, PromptTemplates>>;
+};
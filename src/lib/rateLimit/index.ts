@@ -0,0 +1,330 @@
+import { createMemoryRateLimitStore } from "./memory";
+import { BucketConfig, RateLimitStore } from "./types";
+
+export * from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type RateLimitEnv = Record<string, string | undefined>;
+
+type TierConfig = {
+  bucket: BucketConfig;
+  dailyQuota: number;
+};
+
+export type RateLimitConfig = {
+  anonymous: TierConfig;
+  apiKey: TierConfig;
+  apiKeys: Set<string>;
+  /** Reverse proxies in front of the app whose `X-Forwarded-For` entries are trusted. */
+  trustedProxies: number;
+};
+
+export type ClientIdentity = {
+  kind: "ip" | "key";
+  id: string;
+};
+
+export type RateLimitDecision = {
+  allowed: boolean;
+  reason?: "burst" | "quota" | "invalid_key";
+  retryAfterSeconds?: number;
+  identity?: ClientIdentity;
+  quota?: {
+    limit: number;
+    remaining: number;
+    resetAt: string;
+  };
+  /** Set when `check` took a unit of daily quota, so `refund` can give it back. */
+  charged?: { key: string; windowId: string };
+};
+
+export type RateLimiter = {
+  check: (request: Request) => Promise<RateLimitDecision>;
+  /** Burst bucket only: for requests that cost work but not a generation. */
+  throttle: (request: Request) => Promise<RateLimitDecision>;
+  peek: (request: Request) => Promise<RateLimitDecision>;
+  /**
+   * Returns the daily quota unit of a request rejected as invalid after
+   * `check`; the burst token stays spent so malformed requests are still
+   * throttled.
+   */
+  refund: (decision: RateLimitDecision) => Promise<RateLimitDecision>;
+};
+
+const parsePositiveNumber = (value: string | undefined, fallback: number) => {
+  const parsed = value === undefined ? NaN : Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const buildTier = (
+  env: RateLimitEnv,
+  prefix: string,
+  defaults: { burst: number; perMinute: number; daily: number },
+): TierConfig => ({
+  bucket: {
+    capacity: parsePositiveNumber(env[`${prefix}_BURST`], defaults.burst),
+    refillPerMs:
+      parsePositiveNumber(env[`${prefix}_REFILL_PER_MINUTE`], defaults.perMinute) / 60_000,
+  },
+  dailyQuota: Math.floor(parsePositiveNumber(env[`${prefix}_DAILY_QUOTA`], defaults.daily)),
+});
+
+/**
+ * - `RATE_LIMIT`: 设为 `off` 关闭限流
+ * - `RATE_LIMIT_BURST` / `RATE_LIMIT_REFILL_PER_MINUTE` / `RATE_LIMIT_DAILY_QUOTA`: 匿名（按 IP）额度
+ * - `RATE_LIMIT_API_KEYS`: 逗号分隔的有效 API Key
+ * - `RATE_LIMIT_KEY_BURST` / `RATE_LIMIT_KEY_REFILL_PER_MINUTE` / `RATE_LIMIT_KEY_DAILY_QUOTA`: API Key 额度
+ * - `RATE_LIMIT_TRUSTED_PROXIES`: 应用前方的反向代理层数，默认 0（不信任 `X-Forwarded-For`，匿名请求不限流）
+ */
+export const readRateLimitConfig = (env: RateLimitEnv = process.env): RateLimitConfig | null => {
+  if ((env.RATE_LIMIT ?? "").trim().toLowerCase() === "off") {
+    return null;
+  }
+  return {
+    anonymous: buildTier(env, "RATE_LIMIT", { burst: 5, perMinute: 5, daily: 50 }),
+    apiKey: buildTier(env, "RATE_LIMIT_KEY", { burst: 20, perMinute: 30, daily: 1000 }),
+    apiKeys: new Set(
+      (env.RATE_LIMIT_API_KEYS ?? "")
+        .split(",")
+        .map((key) => key.trim())
+        .filter(Boolean),
+    ),
+    trustedProxies: Math.max(0, Number.parseInt(env.RATE_LIMIT_TRUSTED_PROXIES ?? "", 10) || 0),
+  };
+};
+
+const readApiKey = (request: Request) => {
+  const explicit = request.headers.get("x-api-key")?.trim();
+  if (explicit) {
+    return explicit;
+  }
+  const authorization = request.headers.get("authorization") ?? "";
+  const match = authorization.match(/^Bearer\s+(.+)$/i);
+  return match?.[1]?.trim() || null;
+};
+
+/**
+ * The client address as seen by the outermost trusted proxy. Every proxy
+ * appends the address it received the request from to `X-Forwarded-For`, so
+ * with `trustedProxies` hops the client is the entry that many places from
+ * the end; anything before it was written by the client and is ignored.
+ * Without trusted proxies the headers are not used at all and the address
+ * is `unknown` (route handlers do not see the socket address).
+ */
+const readClientIp = (request: Request, trustedProxies: number) => {
+  if (!trustedProxies) {
+    return "unknown";
+  }
+  const hops = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  if (hops.length) {
+    return hops[Math.max(0, hops.length - trustedProxies)];
+  }
+  return request.headers.get("x-real-ip")?.trim() || "unknown";
+};
+
+const currentWindow = (now: number) => {
+  const dayStart = Math.floor(now / DAY_MS) * DAY_MS;
+  return {
+    windowId: new Date(dayStart).toISOString().slice(0, 10),
+    resetAt: dayStart + DAY_MS,
+  };
+};
+
+export const createRateLimiter = ({
+  config,
+  store,
+}: {
+  config: RateLimitConfig;
+  store: RateLimitStore;
+}): RateLimiter => {
+  const resolve = (request: Request) => {
+    const apiKey = readApiKey(request);
+    if (apiKey) {
+      if (!config.apiKeys.has(apiKey)) {
+        return null;
+      }
+      return {
+        identity: { kind: "key", id: apiKey } as ClientIdentity,
+        tier: config.apiKey,
+      };
+    }
+    // Without trusted proxies every anonymous client would share one bucket
+    // and one client could use up the whole site's quota, so only API keys
+    // are limited until `RATE_LIMIT_TRUSTED_PROXIES` is set.
+    return {
+      identity: { kind: "ip", id: readClientIp(request, config.trustedProxies) } as ClientIdentity,
+      tier: config.trustedProxies ? config.anonymous : null,
+    };
+  };
+
+  const describeQuota = (tier: TierConfig, used: number, resetAt: number) => ({
+    limit: tier.dailyQuota,
+    remaining: Math.max(0, tier.dailyQuota - used),
+    resetAt: new Date(resetAt).toISOString(),
+  });
+
+  const peek = async (request: Request): Promise<RateLimitDecision> => {
+    const resolved = resolve(request);
+    if (!resolved) {
+      return { allowed: false, reason: "invalid_key" };
+    }
+    if (!resolved.tier) {
+      return { allowed: true, identity: resolved.identity };
+    }
+    const { windowId, resetAt } = currentWindow(Date.now());
+    const storeKey = `${resolved.identity.kind}:${resolved.identity.id}`;
+    const used = await store.peekQuota(storeKey, windowId);
+    return {
+      allowed: used < resolved.tier.dailyQuota,
+      identity: resolved.identity,
+      quota: describeQuota(resolved.tier, used, resetAt),
+    };
+  };
+
+  const throttle = async (request: Request): Promise<RateLimitDecision> => {
+    const resolved = resolve(request);
+    if (!resolved) {
+      return { allowed: false, reason: "invalid_key" };
+    }
+    if (!resolved.tier) {
+      return { allowed: true, identity: resolved.identity };
+    }
+    const now = Date.now();
+    const storeKey = `${resolved.identity.kind}:${resolved.identity.id}`;
+    const token = await store.takeToken(storeKey, resolved.tier.bucket, now);
+    if (!token.allowed) {
+      return {
+        allowed: false,
+        reason: "burst",
+        retryAfterSeconds: Math.max(1, Math.ceil(token.retryAfterMs / 1000)),
+        identity: resolved.identity,
+      };
+    }
+    return { allowed: true, identity: resolved.identity };
+  };
+
+  const check = async (request: Request): Promise<RateLimitDecision> => {
+    const resolved = resolve(request);
+    if (!resolved) {
+      return { allowed: false, reason: "invalid_key" };
+    }
+    if (!resolved.tier) {
+      return { allowed: true, identity: resolved.identity };
+    }
+    const now = Date.now();
+    const { windowId, resetAt } = currentWindow(now);
+    const storeKey = `${resolved.identity.kind}:${resolved.identity.id}`;
+
+    const used = await store.peekQuota(storeKey, windowId);
+    if (used >= resolved.tier.dailyQuota) {
+      return {
+        allowed: false,
+        reason: "quota",
+        retryAfterSeconds: Math.ceil((resetAt - now) / 1000),
+        identity: resolved.identity,
+        quota: describeQuota(resolved.tier, used, resetAt),
+      };
+    }
+
+    const token = await store.takeToken(storeKey, resolved.tier.bucket, now);
+    if (!token.allowed) {
+      return {
+        allowed: false,
+        reason: "burst",
+        retryAfterSeconds: Math.max(1, Math.ceil(token.retryAfterMs / 1000)),
+        identity: resolved.identity,
+        quota: describeQuota(resolved.tier, used, resetAt),
+      };
+    }
+
+    // The peek above only picks the message; this step is the real check, so
+    // concurrent requests cannot both take the last unit of quota.
+    const taken = await store.takeQuota(storeKey, windowId, resolved.tier.dailyQuota);
+    if (!taken.allowed) {
+      return {
+        allowed: false,
+        reason: "quota",
+        retryAfterSeconds: Math.ceil((resetAt - now) / 1000),
+        identity: resolved.identity,
+        quota: describeQuota(resolved.tier, taken.count, resetAt),
+      };
+    }
+    return {
+      allowed: true,
+      identity: resolved.identity,
+      quota: describeQuota(resolved.tier, taken.count, resetAt),
+      charged: { key: storeKey, windowId },
+    };
+  };
+
+  const refund = async (decision: RateLimitDecision): Promise<RateLimitDecision> => {
+    if (!decision.charged) {
+      return decision;
+    }
+    const count = await store.refundQuota(decision.charged.key, decision.charged.windowId);
+    return {
+      ...decision,
+      charged: undefined,
+      ...(decision.quota
+        ? {
+            quota: {
+              ...decision.quota,
+              remaining: Math.max(0, decision.quota.limit - count),
+            },
+          }
+        : {}),
+    };
+  };
+
+  return { check, throttle, peek, refund };
+};
+
+export const buildRateLimitHeaders = (decision: RateLimitDecision) => {
+  const headers: Record<string, string> = {};
+  if (decision.quota) {
+    headers["X-Quota-Limit"] = String(decision.quota.limit);
+    headers["X-Quota-Remaining"] = String(decision.quota.remaining);
+    headers["X-Quota-Reset"] = decision.quota.resetAt;
+  }
+  if (decision.retryAfterSeconds !== undefined) {
+    headers["Retry-After"] = String(decision.retryAfterSeconds);
+  }
+  return headers;
+};
+
+export const describeRateLimitRejection = (decision: RateLimitDecision) => {
+  if (decision.reason === "invalid_key") {
+    return "API Key 无效。";
+  }
+  if (decision.reason === "quota") {
+    return "今日生成次数已用完，请明天再试。";
+  }
+  return `请求过于频繁，请在 ${decision.retryAfterSeconds ?? 1} 秒后重试。`;
+};
+
+const globalRef = globalThis as typeof globalThis & {
+  __klineRateLimiter?: RateLimiter | null;
+};
+
+/**
+ * Process-wide limiter built from env; `null` when rate limiting is off. Kept
+ * on `globalThis` so every route bundle (and dev hot reloads) share counters.
+ */
+export const getRateLimiter = () => {
+  if (globalRef.__klineRateLimiter === undefined) {
+    const config = readRateLimitConfig();
+    if (config && !config.trustedProxies) {
+      console.warn(
+        "RATE_LIMIT_TRUSTED_PROXIES is not set: anonymous requests are not rate limited, only API keys are.",
+      );
+    }
+    globalRef.__klineRateLimiter = config
+      ? createRateLimiter({ config, store: createMemoryRateLimitStore() })
+      : null;
+  }
+  return globalRef.__klineRateLimiter;
+};
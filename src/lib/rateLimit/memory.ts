@@ -0,0 +1,86 @@
+import { BucketConfig, RateLimitStore, TokenResult } from "./types";
+
+type BucketState = {
+  tokens: number;
+  updatedAt: number;
+};
+
+type QuotaState = {
+  windowId: string;
+  count: number;
+};
+
+const MAX_TRACKED_CLIENTS = 10_000;
+
+/**
+ * Single-process store. Good enough for one server instance; deployments with
+ * several instances should plug in a shared store instead.
+ */
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  const buckets = new Map<string, BucketState>();
+  const quotas = new Map<string, QuotaState>();
+
+  const prune = <T>(map: Map<string, T>) => {
+    if (map.size <= MAX_TRACKED_CLIENTS) {
+      return;
+    }
+    const overflow = map.size - MAX_TRACKED_CLIENTS;
+    let removed = 0;
+    for (const key of map.keys()) {
+      if (removed >= overflow) {
+        break;
+      }
+      map.delete(key);
+      removed++;
+    }
+  };
+
+  const takeToken = async (
+    key: string,
+    bucket: BucketConfig,
+    now: number,
+  ): Promise<TokenResult> => {
+    const current = buckets.get(key) ?? { tokens: bucket.capacity, updatedAt: now };
+    const elapsed = Math.max(0, now - current.updatedAt);
+    const tokens = Math.min(bucket.capacity, current.tokens + elapsed * bucket.refillPerMs);
+    buckets.delete(key);
+    if (tokens < 1) {
+      buckets.set(key, { tokens, updatedAt: now });
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterMs: Math.ceil((1 - tokens) / bucket.refillPerMs),
+      };
+    }
+    buckets.set(key, { tokens: tokens - 1, updatedAt: now });
+    prune(buckets);
+    return { allowed: true, remaining: Math.floor(tokens - 1), retryAfterMs: 0 };
+  };
+
+  const takeQuota = async (key: string, windowId: string, limit: number) => {
+    const current = quotas.get(key);
+    const used = current?.windowId === windowId ? current.count : 0;
+    if (used >= limit) {
+      return { allowed: false, count: used };
+    }
+    quotas.set(key, { windowId, count: used + 1 });
+    prune(quotas);
+    return { allowed: true, count: used + 1 };
+  };
+
+  const peekQuota = async (key: string, windowId: string) => {
+    const current = quotas.get(key);
+    return current?.windowId === windowId ? current.count : 0;
+  };
+
+  const refundQuota = async (key: string, windowId: string) => {
+    const current = quotas.get(key);
+    if (current?.windowId !== windowId) {
+      return 0;
+    }
+    current.count = Math.max(0, current.count - 1);
+    return current.count;
+  };
+
+  return { takeToken, takeQuota, peekQuota, refundQuota };
+};
@@ -0,0 +1,33 @@
+export type BucketConfig = {
+  /** Maximum tokens held, i.e. the allowed burst. */
+  capacity: number;
+  /** Tokens added back per millisecond. */
+  refillPerMs: number;
+};
+
+export type TokenResult = {
+  allowed: boolean;
+  remaining: number;
+  /** Milliseconds until at least one token is available again. */
+  retryAfterMs: number;
+};
+
+/**
+ * Storage behind the limiter. Each primitive is a single read-modify-write so
+ * a shared backend (Redis, a database) can implement it atomically.
+ */
+export type RateLimitStore = {
+  takeToken: (key: string, bucket: BucketConfig, now: number) => Promise<TokenResult>;
+  /**
+   * Adds one to the counter for `windowId` unless it already reached `limit`;
+   * the check and the increment must happen in one step.
+   */
+  takeQuota: (
+    key: string,
+    windowId: string,
+    limit: number,
+  ) => Promise<{ allowed: boolean; count: number }>;
+  peekQuota: (key: string, windowId: string) => Promise<number>;
+  /** Gives back one unit taken by `takeQuota`; returns the new count. */
+  refundQuota: (key: string, windowId: string) => Promise<number>;
+};
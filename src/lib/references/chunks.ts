@@ -0,0 +1,168 @@
+/** Target chunk length; sentences are packed up to this many characters. */
+export const CHUNK_CHARS = 600;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]/;
+const CJK_GLOBAL = new RegExp(CJK_PATTERN.source, "g");
+
+/** English function words; ignored by BM25 and counted by `detectTextLanguage`. */
+export const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "in",
+  "is", "it", "its", "of", "on", "or", "that", "the", "this", "to", "was",
+  "were", "with",
+]);
+
+export type TextChunk = {
+  /** Position of the chunk inside its reference, starting at 0. */
+  index: number;
+  text: string;
+};
+
+export type RankedChunk = {
+  /** Index of the reference in the list passed to `rankChunks`. */
+  reference: number;
+  index: number;
+  text: string;
+  score: number;
+  tokens: number;
+};
+
+/**
+ * Rough token count: one per CJK character, one per four other characters.
+ * Good enough to keep the reference block inside a prompt budget.
+ */
+export const estimateTokens = (text: string) => {
+  const cjk = text.match(CJK_GLOBAL)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+};
+
+/**
+ * Lowercased latin words and digits plus CJK character bigrams (a lone CJK
+ * character counts as itself), so Chinese text matches without a segmenter.
+ */
+export const tokenize = (text: string) => {
+  const tokens: string[] = [];
+  for (const run of text.toLowerCase().match(/[a-z0-9]+|[^\sa-z0-9]+/g) ?? []) {
+    if (/^[a-z0-9]/.test(run)) {
+      if (!STOPWORDS.has(run)) {
+        tokens.push(run);
+      }
+      continue;
+    }
+    for (const cjkRun of run.match(new RegExp(`${CJK_PATTERN.source}+`, "g")) ?? []) {
+      if (cjkRun.length === 1) {
+        tokens.push(cjkRun);
+      }
+      for (let index = 0; index < cjkRun.length - 1; index++) {
+        tokens.push(cjkRun.slice(index, index + 2));
+      }
+    }
+  }
+  return tokens;
+};
+
+/**
+ * Splits normalised text into chunks of about `CHUNK_CHARS` characters,
+ * breaking after sentence punctuation (not decimal points) or a line break
+ * where possible.
+ * A sentence longer than a whole chunk is cut hard.
+ */
+export const chunkText = (text: string, limit = CHUNK_CHARS): TextChunk[] => {
+  const sentences = text.split(/(?<=[。！？!?；;\n]|\.\s)/);
+  const chunks: string[] = [];
+  let current = "";
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > limit) {
+      chunks.push(current.trim());
+      current = "";
+    }
+    let rest = sentence;
+    while (rest.length > limit) {
+      chunks.push(rest.slice(0, limit).trim());
+      rest = rest.slice(limit);
+    }
+    current += rest;
+  }
+  if (current.trim()) {
+    chunks.push(current.trim());
+  }
+  return chunks.filter(Boolean).map((chunk, index) => ({ index, text: chunk }));
+};
+
+/**
+ * Scores every chunk of every reference against `query` with BM25 over the
+ * whole chunk collection. Returned highest score first; the sort is stable,
+ * so ties keep reference and reading order and an unmatched query degrades
+ * to "start of each document first".
+ */
+export const rankChunks = (references: TextChunk[][], query: string): RankedChunk[] => {
+  const entries = references.flatMap((chunks, reference) =>
+    chunks.map((chunk) => ({ reference, ...chunk, terms: tokenize(chunk.text) })),
+  );
+  if (!entries.length) {
+    return [];
+  }
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const averageLength =
+    entries.reduce((sum, entry) => sum + entry.terms.length, 0) / entries.length || 1;
+  const documentFrequency = new Map<string, number>();
+  const frequencies = entries.map((entry) => {
+    const counts = new Map<string, number>();
+    entry.terms.forEach((term) => counts.set(term, (counts.get(term) ?? 0) + 1));
+    counts.forEach((_, term) =>
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1),
+    );
+    return counts;
+  });
+
+  return entries
+    .map((entry, position): RankedChunk => {
+      const lengthNorm = 1 - BM25_B + (BM25_B * entry.terms.length) / averageLength;
+      const score = queryTerms.reduce((sum, term) => {
+        const tf = frequencies[position].get(term) ?? 0;
+        if (!tf) {
+          return sum;
+        }
+        const df = documentFrequency.get(term) ?? 0;
+        const idf = Math.log(1 + (entries.length - df + 0.5) / (df + 0.5));
+        return sum + (idf * tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm);
+      }, 0);
+      return {
+        reference: entry.reference,
+        index: entry.index,
+        text: entry.text,
+        score: Math.round(score * 1000) / 1000,
+        tokens: estimateTokens(entry.text),
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Picks chunks until `budget` tokens are used. The best chunk of every
+ * reference goes in first so no source is crowded out by a longer one; the
+ * remaining budget then goes to the highest scores overall.
+ */
+export const selectChunks = (ranked: RankedChunk[], budget: number) => {
+  const selected: RankedChunk[] = [];
+  const taken = new Set<RankedChunk>();
+  let used = 0;
+  const take = (chunk: RankedChunk) => {
+    if (taken.has(chunk) || used + chunk.tokens > budget) {
+      return;
+    }
+    taken.add(chunk);
+    selected.push(chunk);
+    used += chunk.tokens;
+  };
+  const leaders = new Map<number, RankedChunk>();
+  ranked.forEach((chunk) => {
+    if (!leaders.has(chunk.reference)) {
+      leaders.set(chunk.reference, chunk);
+    }
+  });
+  leaders.forEach(take);
+  ranked.forEach(take);
+  return selected;
+};
@@ -0,0 +1,6 @@
+export class ReferenceIngestionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReferenceIngestionError";
+  }
+}
@@ -0,0 +1,319 @@
+import { lookup as dnsLookup, LookupAddress } from "node:dns";
+import http, { IncomingMessage } from "node:http";
+import https from "node:https";
+import { BlockList, isIP, LookupFunction } from "node:net";
+import { Readable } from "node:stream";
+import zlib from "node:zlib";
+import { ReferenceIngestionError } from "./errors";
+
+const MAX_REDIRECTS = 5;
+const MAX_LINK_BYTES = 2 * 1024 * 1024;
+/** How far into an HTML page `<meta charset>` is looked for. */
+const CHARSET_SNIFF_BYTES = 4096;
+const USER_AGENT = "KLineWorldBot/1.0 (https://kline.world)";
+
+const HTML_TYPES = ["text/html", "application/xhtml+xml"];
+const TEXT_TYPES = ["text/plain", "text/markdown"];
+/** Legacy `.doc` (`application/msword`) is left out: mammoth only reads `.docx`. */
+const DOCUMENT_TYPES = [
+  "application/pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+];
+/** Types servers use for any download; the URL extension decides for these. */
+const GENERIC_TYPES = ["application/octet-stream", "binary/octet-stream", "application/x-download"];
+const DOCUMENT_EXTENSION = /\.(?:pdf|docx)$/i;
+
+export type LinkKind = "html" | "text" | "document";
+
+const resolveKind = (mediaType: string, url: URL): LinkKind | null => {
+  if (HTML_TYPES.includes(mediaType)) {
+    return "html";
+  }
+  if (TEXT_TYPES.includes(mediaType)) {
+    return "text";
+  }
+  if (DOCUMENT_TYPES.includes(mediaType)) {
+    return "document";
+  }
+  if (!mediaType || GENERIC_TYPES.includes(mediaType)) {
+    return DOCUMENT_EXTENSION.test(url.pathname) ? "document" : mediaType ? null : "html";
+  }
+  return null;
+};
+
+/** Loopback, private, link-local (cloud metadata), CGNAT, multicast and reserved ranges. */
+const BLOCKED_ADDRESSES = (() => {
+  const list = new BlockList();
+  (
+    [
+      ["0.0.0.0", 8],
+      ["10.0.0.0", 8],
+      ["100.64.0.0", 10],
+      ["127.0.0.0", 8],
+      ["169.254.0.0", 16],
+      ["172.16.0.0", 12],
+      ["192.0.0.0", 24],
+      ["192.0.2.0", 24],
+      ["192.168.0.0", 16],
+      ["198.18.0.0", 15],
+      ["198.51.100.0", 24],
+      ["203.0.113.0", 24],
+      ["224.0.0.0", 4],
+      ["240.0.0.0", 4],
+    ] as const
+  ).forEach(([address, prefix]) => list.addSubnet(address, prefix, "ipv4"));
+  (
+    [
+      // `::`, `::1` and IPv4-compatible `::a.b.c.d`. Together with 6to4 these
+      // embed an IPv4 host; IPv4-mapped `::ffff:a.b.c.d` is checked against
+      // the IPv4 ranges by BlockList (a `::ffff:0:0/96` rule would match
+      // every IPv4 address).
+      ["::", 96],
+      ["2002::", 16],
+      ["64:ff9b::", 96],
+      ["100::", 64],
+      ["2001:db8::", 32],
+      ["fc00::", 7],
+      ["fe80::", 10],
+      ["ff00::", 8],
+    ] as const
+  ).forEach(([address, prefix]) => list.addSubnet(address, prefix, "ipv6"));
+  return list;
+})();
+
+class BlockedHostError extends Error {
+  constructor(host: string) {
+    super(`Blocked address for ${host}`);
+    this.name = "BlockedHostError";
+  }
+}
+
+export const isBlockedAddress = (address: string) => {
+  const family = isIP(address);
+  if (!family) {
+    return true;
+  }
+  // `::ffff:127.0.0.1` is matched against the IPv4 ranges by BlockList itself.
+  return BLOCKED_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4");
+};
+
+/**
+ * Resolves like `dns.lookup` but fails when any address is internal. It is
+ * handed to `http.request`, so the check covers the address actually
+ * connected to (no DNS-rebinding gap) and every redirect hop.
+ */
+const guardedLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    const resolved = addresses as LookupAddress[] | undefined;
+    if (error || !resolved?.length) {
+      callback(error ?? new Error(`No address for ${hostname}`), "", 0);
+      return;
+    }
+    if (resolved.some(({ address }) => isBlockedAddress(address))) {
+      callback(new BlockedHostError(hostname), "", 0);
+      return;
+    }
+    if (options.all) {
+      (callback as (error: null, addresses: LookupAddress[]) => void)(null, resolved);
+      return;
+    }
+    callback(null, resolved[0].address, resolved[0].family);
+  });
+};
+
+/**
+ * Only http(s) URLs without credentials; a literal IP must be public, since
+ * `lookup` is skipped for those. Host names are checked when connecting.
+ */
+export const parseLinkUrl = (value: string) => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new ReferenceIngestionError(`链接格式不正确：${value}`);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new ReferenceIngestionError(`仅支持 http / https 链接：${value}`);
+  }
+  if (url.username || url.password) {
+    throw new ReferenceIngestionError(`链接不能包含账号密码：${value}`);
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (
+    host === "localhost" ||
+    host.endsWith(".localhost") ||
+    (isIP(host) && isBlockedAddress(host))
+  ) {
+    throw new ReferenceIngestionError(`链接指向内网或保留地址，已拒绝：${value}`);
+  }
+  return url;
+};
+
+const requestOnce = (url: URL, signal?: AbortSignal) =>
+  new Promise<IncomingMessage>((resolve, reject) => {
+    const client = url.protocol === "https:" ? https : http;
+    const request = client.request(
+      url,
+      {
+        method: "GET",
+        signal,
+        lookup: guardedLookup,
+        headers: {
+          "User-Agent": USER_AGENT,
+          Accept:
+            "text/html,application/xhtml+xml,text/plain;q=0.9,application/pdf;q=0.8,*/*;q=0.5",
+          "Accept-Encoding": "gzip, deflate, br",
+        },
+      },
+      resolve,
+    );
+    request.on("error", reject);
+    request.end();
+  });
+
+const decodeStream = (response: IncomingMessage): Readable => {
+  switch ((response.headers["content-encoding"] ?? "").trim().toLowerCase()) {
+    case "gzip":
+    case "x-gzip":
+      return response.pipe(zlib.createGunzip());
+    case "deflate":
+      return response.pipe(zlib.createInflate());
+    case "br":
+      return response.pipe(zlib.createBrotliDecompress());
+    default:
+      return response;
+  }
+};
+
+/**
+ * Reads at most `limit` decoded bytes (so a compressed bomb is caught too)
+ * and stops the download there.
+ */
+const readCapped = async (response: IncomingMessage, limit: number) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let truncated = false;
+  const stream = decodeStream(response);
+  try {
+    for await (const chunk of stream) {
+      const buffer = chunk as Buffer;
+      if (size + buffer.byteLength > limit) {
+        chunks.push(buffer.subarray(0, limit - size));
+        size = limit;
+        truncated = true;
+        break;
+      }
+      chunks.push(buffer);
+      size += buffer.byteLength;
+    }
+  } finally {
+    response.destroy();
+    stream.destroy();
+  }
+  return { body: Buffer.concat(chunks, size), truncated };
+};
+
+/** BOM first, then the `Content-Type` charset, then `<meta charset>`; UTF-8 otherwise. */
+export const detectCharset = (contentType: string, body: Buffer) => {
+  if (body[0] === 0xef && body[1] === 0xbb && body[2] === 0xbf) {
+    return "utf-8";
+  }
+  if (body[0] === 0xfe && body[1] === 0xff) {
+    return "utf-16be";
+  }
+  if (body[0] === 0xff && body[1] === 0xfe) {
+    return "utf-16le";
+  }
+  const fromHeader = contentType.match(/charset\s*=\s*["']?([\w.:-]+)/i)?.[1];
+  if (fromHeader) {
+    return fromHeader.toLowerCase();
+  }
+  const head = body.subarray(0, CHARSET_SNIFF_BYTES).toString("latin1");
+  const fromMeta = head.match(/<meta[^>]+charset\s*=\s*["']?\s*([\w.:-]+)/i)?.[1];
+  return fromMeta ? fromMeta.toLowerCase() : "utf-8";
+};
+
+const decodeText = (body: Buffer, charset: string) => {
+  try {
+    return new TextDecoder(charset).decode(body);
+  } catch {
+    return new TextDecoder("utf-8").decode(body);
+  }
+};
+
+export type FetchedLink = {
+  /** Address after redirects. */
+  url: string;
+  contentType: string;
+  kind: LinkKind;
+  /** Raw bytes; documents are parsed from these. */
+  body: Buffer;
+  /** Decoded body for `html` / `text` links, empty for documents. */
+  text: string;
+  charset?: string;
+  /** The body hit `MAX_LINK_BYTES` and was cut there (text links only). */
+  truncated: boolean;
+};
+
+/**
+ * GETs a user-supplied link without letting it reach internal hosts: every
+ * hop is validated, redirects are followed by hand up to `MAX_REDIRECTS`,
+ * only HTML, plain text, PDF and Word responses are read, the body is capped
+ * while streaming and text is decoded with the charset the page declares. Throws `ReferenceIngestionError` with
+ * a user-facing message.
+ */
+export const fetchLink = async (link: string, signal?: AbortSignal): Promise<FetchedLink> => {
+  let url = parseLinkUrl(link);
+  let response: IncomingMessage;
+  for (let hop = 0; ; hop++) {
+    try {
+      response = await requestOnce(url, signal);
+    } catch (error) {
+      if (error instanceof BlockedHostError) {
+        throw new ReferenceIngestionError(`链接指向内网或保留地址，已拒绝：${link}`);
+      }
+      throw error;
+    }
+    const status = response.statusCode ?? 0;
+    const location = response.headers.location;
+    if (status < 300 || status >= 400 || !location) {
+      break;
+    }
+    response.destroy();
+    if (hop >= MAX_REDIRECTS) {
+      throw new ReferenceIngestionError(`链接重定向超过 ${MAX_REDIRECTS} 次：${link}`);
+    }
+    url = parseLinkUrl(new URL(location, url).toString());
+  }
+
+  const status = response.statusCode ?? 0;
+  if (status < 200 || status >= 300) {
+    response.destroy();
+    throw new ReferenceIngestionError(`链接响应 ${status}：${link}`);
+  }
+  const contentType = (response.headers["content-type"] ?? "").toLowerCase();
+  const mediaType = contentType.split(";")[0].trim();
+  const kind = resolveKind(mediaType, url);
+  if (!kind) {
+    response.destroy();
+    throw new ReferenceIngestionError(`暂不支持读取该类型的链接（${mediaType}）：${link}`);
+  }
+  const { body, truncated } = await readCapped(response, MAX_LINK_BYTES);
+  if (kind === "document") {
+    // A cut-off PDF or DOCX cannot be parsed, so documents must fit whole.
+    if (truncated) {
+      throw new ReferenceIngestionError(`链接文件超过 2MB 限制：${link}`);
+    }
+    return { url: url.toString(), contentType: mediaType, kind, body, text: "", truncated };
+  }
+  const charset = detectCharset(contentType, body);
+  return {
+    url: url.toString(),
+    contentType: mediaType || "text/html",
+    kind,
+    body,
+    text: decodeText(body, charset),
+    charset,
+    truncated,
+  };
+};
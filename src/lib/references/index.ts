@@ -0,0 +1,449 @@
+import "../polyfills/domMatrix";
+import { PDFParse } from "pdf-parse";
+import mammoth from "mammoth";
+import { mapWithConcurrency } from "../concurrency";
+import {
+  RequestAbortedError,
+  runWithDeadline,
+  StageTimeoutError,
+  StageTimeouts,
+} from "../deadline";
+import { CHUNK_CHARS, chunkText, estimateTokens, rankChunks, selectChunks } from "./chunks";
+import { ReferenceIngestionError } from "./errors";
+import { fetchLink } from "./fetch";
+import { detectTextLanguage, TextLanguage } from "./language";
+import type { ReferenceMetadata } from "./metadata";
+import { extractArticle } from "./readability";
+
+export { ReferenceIngestionError };
+export type { ReferenceMetadata, TextLanguage };
+
+export type UploadedDocument = {
+  name: string;
+  type?: string;
+  /** Base64 (a data URL is fine) when the request is JSON. */
+  content?: string;
+  /** Raw bytes when the file came in a `multipart/form-data` request. */
+  data?: Buffer;
+};
+
+export type ReferenceEntry = ReferenceMetadata & {
+  type: "text" | "url" | "file";
+  content: string;
+  source: string;
+  /** Chunks kept for the prompt, in reading order, with their ranking score. */
+  chunks?: { index: number; score: number }[];
+  total_chunks?: number;
+};
+
+/** One input's outcome from `/api/references/preview`, before any budget is applied. */
+export type ReferencePreviewItem = ReferenceMetadata & {
+  type: ReferenceEntry["type"];
+  source: string;
+  status: "ok" | "error";
+  error?: string;
+  /** Characters of extracted text. */
+  chars?: number;
+  /** The download hit its size cap, or the text alone is over the token budget. */
+  truncated?: boolean;
+  language?: TextLanguage;
+  excerpt?: string;
+};
+
+export type ReferenceResult = {
+  status: "empty" | "success" | "partial" | "failed";
+  references: ReferenceEntry[];
+  errors: string[];
+};
+
+const DEFAULT_TOKEN_BUDGET = 6000;
+const DEFAULT_LINK_CONCURRENCY = 3;
+const MAX_UPLOAD_BYTES = 2 * 1024 * 1024;
+
+export const buildReferencePreview = (value: string, limit = 240) => {
+  const normalized = normalizeWhitespace(value ?? "");
+  if (!normalized.length) {
+    return "";
+  }
+  return normalized.length > limit
+    ? `${normalized.slice(0, limit)}…`
+    : normalized;
+};
+
+
+const decodeDocumentBuffer = (doc: UploadedDocument) => {
+  if (Buffer.isBuffer(doc.data)) {
+    return doc.data;
+  }
+  const input = doc.content ?? "";
+  const base64 = input.includes(",") ? input.split(",").pop() ?? "" : input;
+  return Buffer.from(base64, "base64");
+};
+
+const extractPlainText = (html: string) =>
+  html
+    .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, " ")
+    .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const extractMainTextFromHtml = (
+  html: string,
+): { text: string; metadata: ReferenceMetadata } => {
+  try {
+    const { text, ...metadata } = extractArticle(html);
+    return { text: text.trim() ? text : extractPlainText(html), metadata };
+  } catch {
+    return { text: extractPlainText(html), metadata: {} };
+  }
+};
+
+const normalizeWhitespace = (value: string) => value.replace(/\s+/g, " ").trim();
+
+const isPdf = (name = "", type = "") =>
+  type.includes("pdf") || name.toLowerCase().endsWith(".pdf");
+
+const isDocx = (name = "", type = "") =>
+  type.includes("wordprocessingml") || name.toLowerCase().endsWith(".docx");
+
+/** Word 97-2003 and RTF files, which mammoth cannot read. */
+const isLegacyWord = (name = "", type = "") =>
+  type === "application/msword" || /\.(?:doc|rtf)$/i.test(name);
+
+/**
+ * PDF / Word / plain text to normalised text. Shared by uploads and links
+ * that point at a document; `label` names the source in error messages.
+ */
+const parseDocumentBuffer = async (
+  buffer: Buffer,
+  doc: { name: string; type?: string },
+  label = doc.name,
+): Promise<string> => {
+  try {
+    let raw = "";
+    if (isPdf(doc.name, doc.type)) {
+      const parser = new PDFParse({ data: buffer });
+      try {
+        const parsed = await parser.getText();
+        raw = parsed.text ?? "";
+      } finally {
+        await parser.destroy().catch(() => {});
+      }
+    } else if (isDocx(doc.name, doc.type)) {
+      const { value } = await mammoth.extractRawText({ buffer });
+      raw = value ?? "";
+    } else if (isLegacyWord(doc.name, doc.type)) {
+      throw new ReferenceIngestionError(`暂不支持 .doc / .rtf 文件，请另存为 .docx 后上传：${label}`);
+    } else {
+      raw = buffer.toString("utf8");
+    }
+    const normalized = normalizeWhitespace(raw);
+    if (!normalized.length) {
+      throw new ReferenceIngestionError(`文件内容为空：${label}`);
+    }
+    return normalized;
+  } catch (error) {
+    if (error instanceof ReferenceIngestionError) {
+      throw error;
+    }
+    console.error("Failed to parse document", label, error);
+    throw new ReferenceIngestionError(`无法解析文件：${label}`);
+  }
+};
+
+const extractTextFromDocument = async (doc: UploadedDocument): Promise<string> => {
+  const buffer = decodeDocumentBuffer(doc);
+  const size = buffer.byteLength;
+  if (!size) {
+    throw new ReferenceIngestionError(`文件内容为空：${doc.name}`);
+  }
+  if (size > MAX_UPLOAD_BYTES) {
+    throw new ReferenceIngestionError(`文件超过 2MB 限制：${doc.name}`);
+  }
+  return parseDocumentBuffer(buffer, doc);
+};
+
+/** Dispatches on what the link turned out to be: a web page, plain text or a document. */
+const fetchLinkContent = async (
+  url: string,
+  signal?: AbortSignal,
+): Promise<{ content: string; metadata: ReferenceMetadata; truncated: boolean }> => {
+  try {
+    const page = await fetchLink(url, signal);
+    const { text, metadata } =
+      page.kind === "html"
+        ? extractMainTextFromHtml(page.text)
+        : page.kind === "text"
+          ? { text: normalizeWhitespace(page.text), metadata: {} }
+          : {
+              text: await parseDocumentBuffer(
+                page.body,
+                {
+                  name: decodeURIComponent(new URL(page.url).pathname.split("/").pop() ?? ""),
+                  type: page.contentType,
+                },
+                url,
+              ),
+              metadata: {},
+            };
+    if (!text) {
+      throw new ReferenceIngestionError(`链接内容为空或被限制：${url}`);
+    }
+    return { content: text, metadata, truncated: page.truncated };
+  } catch (error) {
+    if (error instanceof ReferenceIngestionError || signal?.aborted) {
+      throw error;
+    }
+    console.error("Failed to fetch link content", url, error);
+    throw new ReferenceIngestionError(`无法访问链接：${url}`);
+  }
+};
+
+export const formatReferenceEntry = (entry: ReferenceEntry, index: number) => {
+  const label =
+    entry.type === "text"
+      ? "用户补充"
+      : entry.type === "url"
+        ? entry.source
+        : entry.source;
+  const details = [
+    entry.title && `标题：${entry.title}`,
+    entry.published_at && `发布时间：${entry.published_at}`,
+    entry.author && `作者：${entry.author}`,
+  ].filter(Boolean);
+  return `【参考${index + 1} · ${label}】\n${
+    details.length ? `${details.join("｜")}\n` : ""
+  }${entry.content}`;
+};
+
+/** `REFERENCE_TOKEN_BUDGET`: 注入提示词的参考资料总 token 预算，默认 6000。 */
+export const readReferenceBudget = (
+  env: Record<string, string | undefined> = process.env,
+) => {
+  const parsed = Number(env.REFERENCE_TOKEN_BUDGET);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_TOKEN_BUDGET;
+};
+
+/**
+ * Cuts every reference into chunks, ranks them all against `query` and keeps
+ * the best ones that fit `budget`. Each entry's content becomes its kept
+ * chunks in reading order, with `…` where chunks were skipped. Entries left
+ * with nothing are returned separately.
+ */
+const fitReferencesToBudget = (
+  entries: ReferenceEntry[],
+  query: string,
+  budget: number,
+) => {
+  // A chunk never outgrows the budget, or a tiny budget would admit nothing.
+  const chunked = entries.map((entry) =>
+    chunkText(entry.content, Math.min(CHUNK_CHARS, budget)),
+  );
+  const selected = selectChunks(rankChunks(chunked, query), budget);
+  const kept: ReferenceEntry[] = [];
+  const dropped: ReferenceEntry[] = [];
+  entries.forEach((entry, reference) => {
+    const chunks = selected
+      .filter((chunk) => chunk.reference === reference)
+      .sort((a, b) => a.index - b.index);
+    if (!chunks.length) {
+      dropped.push(entry);
+      return;
+    }
+    const total = chunked[reference].length;
+    const content = chunks
+      .map((chunk, position) => {
+        const previous = position > 0 ? chunks[position - 1].index : -1;
+        return chunk.index > previous + 1 ? `… ${chunk.text}` : chunk.text;
+      })
+      .join(" ");
+    kept.push({
+      ...entry,
+      content: chunks[chunks.length - 1].index < total - 1 ? `${content} …` : content,
+      chunks: chunks.map(({ index, score }) => ({ index, score })),
+      total_chunks: total,
+    });
+  });
+  return { kept, dropped };
+};
+
+/** `LINK_FETCH_CONCURRENCY`: 同时抓取的链接数上限，默认 3。 */
+export const readLinkConcurrency = (
+  env: Record<string, string | undefined> = process.env,
+) => {
+  const parsed = Number.parseInt(env.LINK_FETCH_CONCURRENCY ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_LINK_CONCURRENCY;
+};
+
+type ReferenceInputs = {
+  supplementalText?: string;
+  links: string[];
+  documents: UploadedDocument[];
+  signal?: AbortSignal;
+  timeouts: StageTimeouts;
+};
+
+type CollectedReference =
+  | { entry: ReferenceEntry; truncated: boolean }
+  | { type: ReferenceEntry["type"]; source: string; error: string };
+
+/**
+ * Reads every input on its own: supplemental text, then documents, then
+ * links. Failures become items with a user-facing `error`; only an aborted
+ * request throws.
+ */
+const collectReferences = async ({
+  supplementalText,
+  links,
+  documents,
+  signal,
+  timeouts,
+}: ReferenceInputs): Promise<CollectedReference[]> => {
+  const collected: CollectedReference[] = [];
+
+  const textBlock = supplementalText?.trim();
+  if (textBlock) {
+    collected.push({
+      entry: { type: "text", content: textBlock, source: "user_input" },
+      truncated: false,
+    });
+  }
+
+  for (const doc of documents) {
+    try {
+      const text = await runWithDeadline(
+        "document_parse",
+        timeouts.document_parse,
+        signal,
+        () => extractTextFromDocument(doc),
+      );
+      collected.push({
+        entry: { type: "file", content: text, source: doc.name },
+        truncated: false,
+      });
+    } catch (error) {
+      if (error instanceof RequestAbortedError) {
+        throw error;
+      }
+      collected.push({
+        type: "file",
+        source: doc.name,
+        error:
+          error instanceof ReferenceIngestionError
+            ? error.message
+            : error instanceof StageTimeoutError
+              ? `文件解析超时：${doc.name}`
+              : `无法读取文件：${doc.name}`,
+      });
+    }
+  }
+
+  // Links are fetched a few at a time but reported in the order given, so
+  // 【参考N】 numbers stay stable between runs.
+  const fetched = await mapWithConcurrency(
+    links,
+    readLinkConcurrency(),
+    async (link): Promise<CollectedReference> => {
+      try {
+        const { content, metadata, truncated } = await runWithDeadline(
+          "link_fetch",
+          timeouts.link_fetch,
+          signal,
+          (linkSignal) => fetchLinkContent(link, linkSignal),
+        );
+        return { entry: { type: "url", content, source: link, ...metadata }, truncated };
+      } catch (error) {
+        if (error instanceof RequestAbortedError) {
+          throw error;
+        }
+        return {
+          type: "url",
+          source: link,
+          error:
+            error instanceof ReferenceIngestionError
+              ? error.message
+              : error instanceof StageTimeoutError
+                ? `链接读取超时：${link}`
+                : `无法访问链接：${link}`,
+        };
+      }
+    },
+    { signal },
+  );
+  return [...collected, ...fetched];
+};
+
+export const ingestReferences = async ({
+  query = "",
+  tokenBudget = readReferenceBudget(),
+  ...inputs
+}: ReferenceInputs & {
+  /** Question and subject the reference chunks are ranked against. */
+  query?: string;
+  tokenBudget?: number;
+}): Promise<ReferenceResult> => {
+  const items = await collectReferences(inputs);
+  if (!items.length) {
+    return { status: "empty", references: [], errors: [] };
+  }
+  const collected = items.flatMap((item) => ("entry" in item ? [item.entry] : []));
+  const partialErrors = items.flatMap((item) => ("error" in item ? [item.error] : []));
+
+  const { kept: references, dropped } = fitReferencesToBudget(
+    collected,
+    query,
+    tokenBudget,
+  );
+  dropped.forEach(({ source, type }) =>
+    partialErrors.push(
+      `资料超出篇幅预算，未被采用：${type === "text" ? "用户补充" : source}`,
+    ),
+  );
+
+  if (!references.length) {
+    return {
+      status: "failed",
+      references: [],
+      errors:
+        partialErrors.length > 0
+          ? partialErrors
+          : ["提供的资料为空或无法解析。"],
+    };
+  }
+
+  const status: ReferenceResult["status"] =
+    partialErrors.length > 0 ? "partial" : "success";
+
+  return {
+    status,
+    references,
+    errors: partialErrors,
+  };
+};
+
+/**
+ * Reads the inputs the way a generation would and reports on each one, in
+ * input order, without ranking or calling the model. `truncated` tells the
+ * user that not all of an item's text can reach the prompt.
+ */
+export const previewReferences = async ({
+  tokenBudget = readReferenceBudget(),
+  ...inputs
+}: ReferenceInputs & { tokenBudget?: number }): Promise<ReferencePreviewItem[]> => {
+  const items = await collectReferences(inputs);
+  return items.map((item): ReferencePreviewItem => {
+    if ("error" in item) {
+      return { type: item.type, source: item.source, status: "error", error: item.error };
+    }
+    const { content, ...entry } = item.entry;
+    return {
+      ...entry,
+      status: "ok",
+      chars: content.length,
+      truncated: item.truncated || estimateTokens(content) > tokenBudget,
+      language: detectTextLanguage(content),
+      excerpt: buildReferencePreview(content, 280),
+    };
+  });
+};
@@ -0,0 +1,34 @@
+import { STOPWORDS } from "./chunks";
+
+export type TextLanguage = "zh" | "ja" | "ko" | "en" | "other" | "unknown";
+
+/** Only the start of a document is looked at. */
+const SAMPLE_CHARS = 4000;
+
+const count = (text: string, pattern: RegExp) => text.match(pattern)?.length ?? 0;
+
+/**
+ * Script-based guess at the language of extracted text. Kana means Japanese
+ * and Hangul Korean; other CJK text is Chinese. Latin text is English when
+ * enough of its words are English function words, `other` otherwise.
+ */
+export const detectTextLanguage = (text: string): TextLanguage => {
+  const sample = text.slice(0, SAMPLE_CHARS);
+  const han = count(sample, /[\u3400-\u9fff\uf900-\ufaff]/g);
+  const kana = count(sample, /[\u3040-\u30ff]/g);
+  const hangul = count(sample, /[\uac00-\ud7af]/g);
+  const words = sample.toLowerCase().match(/[a-z\u00c0-\u024f]+/g) ?? [];
+  const cjk = han + kana + hangul;
+  if (!cjk && !words.length) {
+    return "unknown";
+  }
+  // A CJK character carries about as much as a short latin word.
+  if (cjk >= words.length) {
+    if (kana >= cjk * 0.1) {
+      return "ja";
+    }
+    return hangul > han ? "ko" : "zh";
+  }
+  const english = words.filter((word) => STOPWORDS.has(word)).length;
+  return english >= words.length * 0.1 ? "en" : "other";
+};
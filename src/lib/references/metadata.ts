@@ -0,0 +1,135 @@
+import type { HTMLElement } from "node-html-parser";
+
+export type ReferenceMetadata = {
+  title?: string;
+  /** `YYYY-MM-DD` when the page states when it was published. */
+  published_at?: string;
+  author?: string;
+};
+
+const TITLE_KEYS = ["og:title", "twitter:title", "headline"];
+const DATE_KEYS = [
+  "article:published_time",
+  "og:published_time",
+  "datepublished",
+  "publishdate",
+  "pubdate",
+  "publish_date",
+  "dc.date.issued",
+  "dc.date",
+  "date",
+];
+const AUTHOR_KEYS = ["author", "article:author", "byl", "dc.creator"];
+
+type JsonLd = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is JsonLd =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const clean = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.replace(/\s+/g, " ").trim() : undefined;
+
+/**
+ * `2024-03-05T08:00:00+08:00`, `2024/3/5` and `2024年3月5日` all become
+ * `2024-03-05`; anything else goes through `Date` and is dropped if invalid.
+ */
+export const normalizePublishedDate = (value?: string) => {
+  const text = value?.trim();
+  if (!text) {
+    return undefined;
+  }
+  const match = text.match(/((?:19|20)\d{2})\s*[-/.年]\s*(\d{1,2})\s*[-/.月]\s*(\d{1,2})/);
+  if (match) {
+    return `${match[1]}-${match[2].padStart(2, "0")}-${match[3].padStart(2, "0")}`;
+  }
+  const parsed = new Date(text);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString().slice(0, 10);
+};
+
+/** `<meta>` content keyed by lowercased `property` / `name` / `itemprop`; the first tag wins. */
+const readMetaTags = (root: HTMLElement) => {
+  const tags = new Map<string, string>();
+  root.querySelectorAll("meta").forEach((node) => {
+    const key = (
+      node.getAttribute("property") ??
+      node.getAttribute("name") ??
+      node.getAttribute("itemprop")
+    )
+      ?.trim()
+      .toLowerCase();
+    const content = clean(node.getAttribute("content"));
+    if (key && content && !tags.has(key)) {
+      tags.set(key, content);
+    }
+  });
+  return tags;
+};
+
+/** Article-like objects from `application/ld+json` blocks, `@graph` flattened. */
+const readJsonLd = (root: HTMLElement) =>
+  root.querySelectorAll('script[type="application/ld+json"]').flatMap((node) => {
+    try {
+      const parsed: unknown = JSON.parse(node.text);
+      const items = Array.isArray(parsed) ? parsed : [parsed];
+      return items
+        .flatMap((item) =>
+          isRecord(item) && Array.isArray(item["@graph"]) ? item["@graph"] : [item],
+        )
+        .filter(isRecord);
+    } catch {
+      return [];
+    }
+  });
+
+const readJsonLdAuthor = (value: unknown): string | undefined => {
+  if (Array.isArray(value)) {
+    const names = value.map(readJsonLdAuthor).filter(Boolean);
+    return names.length ? names.join("、") : undefined;
+  }
+  return isRecord(value) ? clean(value.name) : clean(value);
+};
+
+/** `新闻标题_新浪网` / `Title | Site` → the longest part, if it is a real title. */
+const trimSiteName = (title?: string) => {
+  if (!title) {
+    return undefined;
+  }
+  const parts = title
+    .split(/\s[|–—-]\s|_|｜/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+  const longest = parts.reduce((best, part) => (part.length > best.length ? part : best), "");
+  return parts.length > 1 && longest.length >= 5 ? longest : title;
+};
+
+const pick = (tags: Map<string, string>, keys: string[]) =>
+  keys.map((key) => tags.get(key)).find(Boolean);
+
+/**
+ * Title, publish date and author of a web page from Open Graph / article
+ * meta tags, JSON-LD and finally `<title>` (site name trimmed) /
+ * `<time datetime>`. Author values that are profile URLs are ignored.
+ */
+export const extractHtmlMetadata = (root: HTMLElement): ReferenceMetadata => {
+  const tags = readMetaTags(root);
+  const article = readJsonLd(root).find(
+    (item) => item.datePublished || item.headline || item.author,
+  );
+  const title =
+    pick(tags, TITLE_KEYS) ??
+    clean(article?.headline) ??
+    trimSiteName(clean(root.querySelector("title")?.text));
+  const published_at = normalizePublishedDate(
+    pick(tags, DATE_KEYS) ??
+      clean(article?.datePublished) ??
+      root.querySelector("time[datetime]")?.getAttribute("datetime"),
+  );
+  const author = [pick(tags, AUTHOR_KEYS), readJsonLdAuthor(article?.author)].find(
+    (value) => value && !/^https?:\/\//i.test(value),
+  );
+  return {
+    ...(title ? { title } : {}),
+    ...(published_at ? { published_at } : {}),
+    ...(author ? { author } : {}),
+  };
+};
@@ -0,0 +1,265 @@
+import { HTMLElement, Node, NodeType, parse } from "node-html-parser";
+import { extractHtmlMetadata, ReferenceMetadata } from "./metadata";
+
+export type ExtractedArticle = ReferenceMetadata & {
+  /** Blocks separated by blank lines; headings start with `#`, list items with `-`. */
+  text: string;
+};
+
+/**
+ * Never content, whatever their class says. `<form>` is kept: ASP.NET-style
+ * pages wrap the whole body in one, and search boxes lose their inputs here
+ * and their links to the link-density penalty anyway.
+ */
+const STRIP_TAGS = [
+  "script", "style", "noscript", "template", "iframe", "button", "input", "select",
+  "textarea", "svg", "canvas", "nav", "footer", "aside", "dialog",
+];
+const STRIP_ROLES = ["navigation", "complementary", "banner", "contentinfo", "dialog", "menu"];
+/** Always boilerplate, even inside a container named `content`. */
+const ALWAYS_UNLIKELY = /comment|disqus|reply|cookie|consent|gdpr|newsletter|subscribe/i;
+const UNLIKELY =
+  /related|recommend|share|social|sidebar|footer|masthead|menu|breadcrumb|popup|modal|banner|advert|\bads?\b|promo|sponsor|pagination|toolbar|hot-?list|rank|nav/i;
+const POSITIVE = /article|content|main|body|post|entry|story|text|detail/i;
+const NEGATIVE = /meta|footnote|widget|tag|hidden|caption|credit|byline|author/i;
+
+const PARAGRAPH_TAGS = new Set(["P", "PRE", "TD", "BLOCKQUOTE"]);
+const BLOCK_TAGS = new Set([
+  "ADDRESS", "ARTICLE", "BLOCKQUOTE", "DD", "DIV", "DL", "DT", "FIGCAPTION", "FIGURE",
+  "H1", "H2", "H3", "H4", "H5", "H6", "HR", "LI", "MAIN", "OL", "P", "PRE", "SECTION",
+  "TABLE", "TD", "TH", "TR", "UL",
+]);
+const HEADING = /^H([1-6])$/;
+const MIN_PARAGRAPH_CHARS = 25;
+/** Below this the winning block is probably wrong and the whole body is used. */
+const MIN_ARTICLE_CHARS = 140;
+
+const clean = (value: string) => value.replace(/\s+/g, " ").trim();
+
+const isElement = (node: Node): node is HTMLElement => node.nodeType === NodeType.ELEMENT_NODE;
+
+const describe = (node: HTMLElement) =>
+  `${node.getAttribute("class") ?? ""} ${node.getAttribute("id") ?? ""}`;
+
+const classWeight = (node: HTMLElement) => {
+  const names = describe(node);
+  return (POSITIVE.test(names) ? 25 : 0) - (NEGATIVE.test(names) ? 25 : 0);
+};
+
+const tagWeight = (node: HTMLElement) => {
+  switch (node.tagName) {
+    case "DIV":
+    case "ARTICLE":
+    case "SECTION":
+    case "MAIN":
+      return 5;
+    case "PRE":
+    case "TD":
+    case "BLOCKQUOTE":
+      return 3;
+    case "OL":
+    case "UL":
+    case "LI":
+    case "FORM":
+      return -3;
+    default:
+      return HEADING.test(node.tagName) ? -5 : 0;
+  }
+};
+
+/** Share of the text that sits inside links; menus and "related" lists score high. */
+const linkDensity = (node: HTMLElement) => {
+  const length = clean(node.text).length;
+  if (!length) {
+    return 0;
+  }
+  const linked = node
+    .querySelectorAll("a")
+    .reduce((sum, link) => sum + clean(link.text).length, 0);
+  return Math.min(linked / length, 1);
+};
+
+const hasBlockChild = (node: HTMLElement) =>
+  node.childNodes.some((child) => isElement(child) && BLOCK_TAGS.has(child.tagName));
+
+/** Drops scripts, chrome and anything whose class or id reads like boilerplate. */
+const stripBoilerplate = (root: HTMLElement) => {
+  root.querySelectorAll(STRIP_TAGS.join(",")).forEach((node) => node.remove());
+  root.querySelectorAll("*").forEach((node) => {
+    if (["HTML", "BODY", "MAIN", "ARTICLE"].includes(node.tagName)) {
+      return;
+    }
+    const names = describe(node);
+    const role = node.getAttribute("role") ?? "";
+    if (
+      STRIP_ROLES.includes(role) ||
+      node.getAttribute("aria-hidden") === "true" ||
+      node.hasAttribute("hidden") ||
+      ALWAYS_UNLIKELY.test(names) ||
+      (UNLIKELY.test(names) && !POSITIVE.test(names))
+    ) {
+      node.remove();
+    }
+  });
+};
+
+/**
+ * Readability-style scoring: every paragraph (a `<p>`-like tag, or a `<div>`
+ * without block children) adds points for its length and commas to its
+ * parent and half to its grandparent; the best container after the link
+ * density penalty wins.
+ */
+const scoreCandidates = (root: HTMLElement) => {
+  const scores = new Map<HTMLElement, number>();
+  const touch = (node: HTMLElement) => {
+    if (!scores.has(node)) {
+      scores.set(node, tagWeight(node) + classWeight(node));
+    }
+  };
+  root.querySelectorAll("p,pre,td,blockquote,div,section").forEach((node) => {
+    if (!PARAGRAPH_TAGS.has(node.tagName) && hasBlockChild(node)) {
+      return;
+    }
+    const text = clean(node.text);
+    if (text.length < MIN_PARAGRAPH_CHARS) {
+      return;
+    }
+    const points =
+      1 + (text.match(/[,，、;；]/g)?.length ?? 0) + Math.min(Math.floor(text.length / 100), 3);
+    const parent = node.parentNode;
+    const grandparent = parent?.parentNode;
+    if (parent && isElement(parent)) {
+      touch(parent);
+      scores.set(parent, (scores.get(parent) ?? 0) + points);
+    }
+    if (grandparent && isElement(grandparent)) {
+      touch(grandparent);
+      scores.set(grandparent, (scores.get(grandparent) ?? 0) + points / 2);
+    }
+  });
+  let top: HTMLElement | null = null;
+  let topScore = 0;
+  scores.forEach((score, node) => {
+    const adjusted = score * (1 - linkDensity(node));
+    scores.set(node, adjusted);
+    if (adjusted > topScore) {
+      top = node;
+      topScore = adjusted;
+    }
+  });
+  return { top: top as HTMLElement | null, topScore, scores };
+};
+
+/**
+ * The winner plus siblings that belong to the same article: well-scored
+ * containers, and long or sentence-like paragraphs with few links.
+ */
+const clusterSiblings = (
+  top: HTMLElement,
+  topScore: number,
+  scores: Map<HTMLElement, number>,
+) => {
+  const parent = top.parentNode;
+  if (!parent || !isElement(parent) || parent.tagName === "HTML") {
+    return [top];
+  }
+  const threshold = Math.max(10, topScore * 0.2);
+  return parent.childNodes.filter(isElement).filter((sibling) => {
+    if (sibling === top || (scores.get(sibling) ?? 0) >= threshold) {
+      return true;
+    }
+    if (sibling.tagName !== "P") {
+      return false;
+    }
+    const text = clean(sibling.text);
+    const density = linkDensity(sibling);
+    return (
+      (text.length > 80 && density < 0.25) ||
+      (text.length > 0 && density === 0 && /[.。!！?？]$/.test(text))
+    );
+  });
+};
+
+/** Flattens nodes into text blocks, keeping paragraph, heading and list boundaries. */
+const renderBlocks = (nodes: HTMLElement[]) => {
+  const blocks: string[] = [];
+  let line = "";
+  const flush = () => {
+    const text = clean(line);
+    if (text) {
+      blocks.push(text);
+    }
+    line = "";
+  };
+  const walk = (node: Node) => {
+    if (!isElement(node)) {
+      line += node.text;
+      return;
+    }
+    const heading = node.tagName.match(HEADING);
+    if (heading) {
+      flush();
+      const text = clean(node.text);
+      if (text) {
+        blocks.push(`${"#".repeat(Number(heading[1]))} ${text}`);
+      }
+      return;
+    }
+    if (node.tagName === "BR") {
+      flush();
+      return;
+    }
+    const block = BLOCK_TAGS.has(node.tagName);
+    if (block) {
+      flush();
+      if (node.tagName === "LI") {
+        line = "- ";
+      }
+    }
+    node.childNodes.forEach(walk);
+    if (block) {
+      flush();
+    }
+  };
+  nodes.forEach((node) => {
+    walk(node);
+    flush();
+  });
+  return blocks.filter((block) => block !== "-").join("\n\n");
+};
+
+const findByline = (root: HTMLElement) => {
+  const node = root.querySelector(
+    '[rel="author"], [itemprop="author"], .byline, .author, .article-author, #author',
+  );
+  const text = node ? clean(node.text) : "";
+  return text && text.length <= 100 ? text : undefined;
+};
+
+/**
+ * Main content of a web page without comments, cookie banners, navigation
+ * or "related articles" lists, plus its title, byline and publish date.
+ */
+export const extractArticle = (html: string): ExtractedArticle => {
+  const root = parse(html);
+  const metadata = extractHtmlMetadata(root);
+  const byline = metadata.author ?? findByline(root);
+  const body = root.querySelector("body") ?? root;
+  stripBoilerplate(body);
+
+  const { top, topScore, scores } = scoreCandidates(body);
+  let text = top ? renderBlocks(clusterSiblings(top, topScore, scores)) : "";
+  if (clean(text).length < MIN_ARTICLE_CHARS) {
+    text = renderBlocks([body]);
+  }
+  // The headline wins when it is a fuller form of the meta title (often a cut `<title>`).
+  const heading = clean(body.querySelector("h1")?.text ?? "");
+  const title =
+    heading && (!metadata.title || heading.includes(metadata.title)) ? heading : metadata.title;
+  return {
+    text,
+    ...(title ? { title } : {}),
+    ...(byline ? { author: byline } : {}),
+    ...(metadata.published_at ? { published_at: metadata.published_at } : {}),
+  };
+};
@@ -0,0 +1,68 @@
+/**
+ * Pulls completed entries of the top-level `phases` array out of a JSON
+ * document that is still being streamed. Each call receives the full text so
+ * far and returns only the phase objects that closed since the last call.
+ */
+export const createPhaseScanner = () => {
+  let emitted = 0;
+
+  const scan = (text: string): Record<string, unknown>[] => {
+    const keyMatch = /"phases"\s*:\s*\[/.exec(text);
+    if (!keyMatch) {
+      return [];
+    }
+
+    const completed: string[] = [];
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let objectStart = -1;
+
+    for (let index = keyMatch.index + keyMatch[0].length; index < text.length; index++) {
+      const char = text[index];
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === "\\") {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+        }
+        continue;
+      }
+      if (char === '"') {
+        inString = true;
+      } else if (char === "{" || char === "[") {
+        if (depth === 0 && char === "{") {
+          objectStart = index;
+        }
+        depth++;
+      } else if (char === "}" || char === "]") {
+        if (depth === 0) {
+          break;
+        }
+        depth--;
+        if (depth === 0 && char === "}" && objectStart !== -1) {
+          completed.push(text.slice(objectStart, index + 1));
+          objectStart = -1;
+        }
+      }
+    }
+
+    const fresh: Record<string, unknown>[] = [];
+    for (const raw of completed.slice(emitted)) {
+      try {
+        const phase = JSON.parse(raw);
+        if (phase && typeof phase === "object") {
+          fresh.push(phase as Record<string, unknown>);
+        }
+      } catch {
+        // A balanced but malformed object will not fix itself later; skip it.
+      }
+      emitted++;
+    }
+    return fresh;
+  };
+
+  return { scan };
+};
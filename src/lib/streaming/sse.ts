@@ -0,0 +1,50 @@
+export type ServerSentEvent = {
+  event: string;
+  data: string;
+};
+
+export const SSE_CONTENT_TYPE = "text/event-stream";
+
+export const encodeSseEvent = (event: string, data: unknown) =>
+  `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+/**
+ * Incremental parser for `text/event-stream` bodies. Feed it decoded chunks in
+ * arrival order; complete events are handed to `onEvent` as soon as their
+ * terminating blank line arrives. Works in both the browser and Node.
+ */
+export const createSseParser = (onEvent: (event: ServerSentEvent) => void) => {
+  let buffer = "";
+
+  const flushBlock = (block: string) => {
+    let event = "message";
+    const dataLines: string[] = [];
+    for (const line of block.split("\n")) {
+      if (!line || line.startsWith(":")) {
+        continue;
+      }
+      const separator = line.indexOf(":");
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value =
+        separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+      if (field === "event") {
+        event = value;
+      } else if (field === "data") {
+        dataLines.push(value);
+      }
+    }
+    if (dataLines.length) {
+      onEvent({ event, data: dataLines.join("\n") });
+    }
+  };
+
+  return (chunk: string) => {
+    buffer += chunk.replace(/\r\n?/g, "\n");
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      flushBlock(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+    }
+  };
+};
@@ -0,0 +1,203 @@
+import type { CompletionUsage } from "../llm";
+import { createMetricsRegistry, MetricsRegistry } from "./metrics";
+
+export type GenerationOutcome =
+  | "success"
+  | "cache_hit"
+  | "unparseable"
+  | "validation_failed"
+  | "provider_error"
+  | "timeout"
+  | "aborted"
+  | "error";
+
+export type GenerationRecord = {
+  type: "generation";
+  request_id: string;
+  started_at: string;
+  prompt_version: string;
+  locale: string;
+  provider: string;
+  model: string;
+  outcome: GenerationOutcome;
+  reference_status?: string;
+  reference_count?: number;
+  reference_errors?: number;
+  cache_hit: boolean;
+  attempts: number;
+  repairs: number;
+  parse_retries: number;
+  timings_ms: Record<string, number>;
+  tokens: {
+    prompt: number;
+    completion: number;
+    total: number;
+  };
+  validation?: {
+    passed: boolean;
+    issues: number;
+    swapped_series?: boolean;
+    relabelled_zones?: number;
+  };
+};
+
+type TraceFields = Partial<
+  Pick<
+    GenerationRecord,
+    | "reference_status"
+    | "reference_count"
+    | "reference_errors"
+    | "cache_hit"
+    | "attempts"
+    | "repairs"
+    | "parse_retries"
+    | "validation"
+  >
+>;
+
+export type GenerationTrace = {
+  requestId: string;
+  measure: <T>(stage: string, task: () => Promise<T>) => Promise<T>;
+  addUsage: (usage?: CompletionUsage) => void;
+  annotate: (fields: TraceFields) => void;
+  finish: (outcome: GenerationOutcome) => GenerationRecord;
+};
+
+const globalRef = globalThis as typeof globalThis & {
+  __klineMetrics?: MetricsRegistry;
+};
+
+/** Process-wide registry shared by the generate route and `/api/metrics`. */
+export const getMetricsRegistry = () => {
+  if (!globalRef.__klineMetrics) {
+    globalRef.__klineMetrics = createMetricsRegistry({
+      kline_generations_total: {
+        kind: "counter",
+        help: "Generations by outcome, provider, prompt version and reference status.",
+      },
+      kline_generation_duration_seconds: {
+        kind: "histogram",
+        help: "Wall time per generation stage.",
+      },
+      kline_generation_repairs_total: {
+        kind: "counter",
+        help: "Self-repair rounds sent back to the model.",
+      },
+      kline_generation_parse_retries_total: {
+        kind: "counter",
+        help: "Model calls retried because the output was not parseable JSON.",
+      },
+      kline_llm_tokens_total: {
+        kind: "counter",
+        help: "Tokens reported by the provider usage field.",
+      },
+    });
+  }
+  return globalRef.__klineMetrics;
+};
+
+const recordMetrics = (record: GenerationRecord) => {
+  const registry = getMetricsRegistry();
+  registry.increment("kline_generations_total", {
+    outcome: record.outcome,
+    provider: record.provider,
+    prompt_version: record.prompt_version,
+    reference_status: record.reference_status ?? "unknown",
+  });
+  for (const [stage, ms] of Object.entries(record.timings_ms)) {
+    registry.observe("kline_generation_duration_seconds", ms / 1000, { stage });
+  }
+  const providerLabels = { provider: record.provider, model: record.model };
+  registry.increment("kline_generation_repairs_total", providerLabels, record.repairs);
+  registry.increment(
+    "kline_generation_parse_retries_total",
+    providerLabels,
+    record.parse_retries,
+  );
+  registry.increment(
+    "kline_llm_tokens_total",
+    { ...providerLabels, kind: "prompt" },
+    record.tokens.prompt,
+  );
+  registry.increment(
+    "kline_llm_tokens_total",
+    { ...providerLabels, kind: "completion" },
+    record.tokens.completion,
+  );
+};
+
+/**
+ * Collects one structured record per generation. `finish` writes it to stdout
+ * as a single JSON line (for log shipping) and folds it into the metrics.
+ */
+export const createGenerationTrace = ({
+  requestId,
+  provider,
+  model,
+  promptVersion,
+  locale,
+}: {
+  requestId: string;
+  provider: string;
+  model: string;
+  promptVersion: string;
+  locale: string;
+}): GenerationTrace => {
+  const startedAt = Date.now();
+  const timings: Record<string, number> = {};
+  const tokens = { prompt: 0, completion: 0, total: 0 };
+  let fields: TraceFields = {};
+  let finished: GenerationRecord | null = null;
+
+  const measure = async <T>(stage: string, task: () => Promise<T>) => {
+    const start = Date.now();
+    try {
+      return await task();
+    } finally {
+      timings[stage] = (timings[stage] ?? 0) + (Date.now() - start);
+    }
+  };
+
+  const addUsage = (usage?: CompletionUsage) => {
+    if (!usage) {
+      return;
+    }
+    tokens.prompt += usage.prompt_tokens ?? 0;
+    tokens.completion += usage.completion_tokens ?? 0;
+    tokens.total +=
+      usage.total_tokens ?? (usage.prompt_tokens ?? 0) + (usage.completion_tokens ?? 0);
+  };
+
+  const annotate = (next: TraceFields) => {
+    fields = { ...fields, ...next };
+  };
+
+  const finish = (outcome: GenerationOutcome) => {
+    if (finished) {
+      return finished;
+    }
+    timings.total = Date.now() - startedAt;
+    finished = {
+      type: "generation",
+      request_id: requestId,
+      started_at: new Date(startedAt).toISOString(),
+      prompt_version: promptVersion,
+      locale,
+      provider,
+      model,
+      outcome,
+      cache_hit: false,
+      attempts: 0,
+      repairs: 0,
+      parse_retries: 0,
+      ...fields,
+      timings_ms: timings,
+      tokens,
+    };
+    console.log(JSON.stringify(finished));
+    recordMetrics(finished);
+    return finished;
+  };
+
+  return { requestId, measure, addUsage, annotate, finish };
+};
@@ -0,0 +1,128 @@
+type Labels = Record<string, string>;
+
+type CounterSeries = {
+  labels: Labels;
+  value: number;
+};
+
+type HistogramSeries = {
+  labels: Labels;
+  buckets: number[];
+  sum: number;
+  count: number;
+};
+
+type MetricDefinition =
+  | { kind: "counter"; help: string; series: Map<string, CounterSeries> }
+  | {
+      kind: "histogram";
+      help: string;
+      bounds: number[];
+      series: Map<string, HistogramSeries>;
+    };
+
+export type MetricsRegistry = {
+  increment: (name: string, labels?: Labels, amount?: number) => void;
+  observe: (name: string, value: number, labels?: Labels) => void;
+  render: () => string;
+};
+
+const DEFAULT_DURATION_BOUNDS = [0.5, 1, 2, 5, 10, 20, 30, 60, 120];
+
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const labelKey = (labels: Labels) =>
+  Object.keys(labels)
+    .sort()
+    .map((key) => `${key}="${escapeLabel(labels[key])}"`)
+    .join(",");
+
+const formatLabels = (labels: Labels, extra?: Labels) => {
+  const key = labelKey({ ...labels, ...extra });
+  return key ? `{${key}}` : "";
+};
+
+/**
+ * Tiny Prometheus-compatible registry. Metrics are declared up front with
+ * their help text so `/api/metrics` always lists them, even before the first
+ * observation.
+ */
+export const createMetricsRegistry = (
+  definitions: Record<string, { kind: "counter" | "histogram"; help: string; bounds?: number[] }>,
+): MetricsRegistry => {
+  const metrics = new Map<string, MetricDefinition>();
+  for (const [name, definition] of Object.entries(definitions)) {
+    metrics.set(
+      name,
+      definition.kind === "counter"
+        ? { kind: "counter", help: definition.help, series: new Map() }
+        : {
+            kind: "histogram",
+            help: definition.help,
+            bounds: definition.bounds ?? DEFAULT_DURATION_BOUNDS,
+            series: new Map(),
+          },
+    );
+  }
+
+  const increment = (name: string, labels: Labels = {}, amount = 1) => {
+    const metric = metrics.get(name);
+    if (metric?.kind !== "counter" || !Number.isFinite(amount)) {
+      return;
+    }
+    const key = labelKey(labels);
+    const series = metric.series.get(key) ?? { labels, value: 0 };
+    series.value += amount;
+    metric.series.set(key, series);
+  };
+
+  const observe = (name: string, value: number, labels: Labels = {}) => {
+    const metric = metrics.get(name);
+    if (metric?.kind !== "histogram" || !Number.isFinite(value)) {
+      return;
+    }
+    const key = labelKey(labels);
+    const series = metric.series.get(key) ?? {
+      labels,
+      buckets: metric.bounds.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    metric.bounds.forEach((bound, index) => {
+      if (value <= bound) {
+        series.buckets[index] += 1;
+      }
+    });
+    series.sum += value;
+    series.count += 1;
+    metric.series.set(key, series);
+  };
+
+  const render = () => {
+    const lines: string[] = [];
+    for (const [name, metric] of metrics) {
+      lines.push(`# HELP ${name} ${metric.help}`);
+      lines.push(`# TYPE ${name} ${metric.kind}`);
+      if (metric.kind === "counter") {
+        for (const series of metric.series.values()) {
+          lines.push(`${name}${formatLabels(series.labels)} ${series.value}`);
+        }
+        continue;
+      }
+      for (const series of metric.series.values()) {
+        metric.bounds.forEach((bound, index) => {
+          lines.push(
+            `${name}_bucket${formatLabels(series.labels, { le: String(bound) })} ${series.buckets[index]}`,
+          );
+        });
+        lines.push(`${name}_bucket${formatLabels(series.labels, { le: "+Inf" })} ${series.count}`);
+        lines.push(`${name}_sum${formatLabels(series.labels)} ${series.sum}`);
+        lines.push(`${name}_count${formatLabels(series.labels)} ${series.count}`);
+      }
+    }
+    return `${lines.join("\n")}\n`;
+  };
+
+  return { increment, observe, render };
+};
@@ -0,0 +1,190 @@
+import type { Locale } from "../i18n";
+import { TrendZone } from "./enums";
+import { getIssueMessages } from "./issues";
+import { ValidationIssue } from "./validation";
+
+export type ZonePolicy = "relabel" | "reject";
+
+export type MonthStamp = {
+  year: number;
+  /** 1-12 */
+  month: number;
+};
+
+type Draft = Record<string, unknown>;
+
+const REALITY_ZONE: TrendZone = "reality";
+const PROJECTION_ZONE: TrendZone = "projection";
+
+const EN_MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+const isRecord = (value: unknown): value is Draft =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+export const toMonthIndex = (stamp: MonthStamp) => stamp.year * 12 + (stamp.month - 1);
+
+const isMonth = (value: number) => Number.isInteger(value) && value >= 1 && value <= 12;
+
+export const formatMonthStamp = (stamp: MonthStamp) =>
+  `${stamp.year}-${String(stamp.month).padStart(2, "0")}`;
+
+/** `data_cutoff` in the exact wording the prompts ask the model for. */
+export const describeDataCutoff = (stamp: MonthStamp, locale: Locale) =>
+  locale === "en"
+    ? `Real data as of: ${formatMonthStamp(stamp)}`
+    : `现实数据截至：${stamp.year}年${String(stamp.month).padStart(2, "0")}月`;
+
+/**
+ * Reads「现实数据截至：YYYY年MM月」and its looser variants (2025-02, 2025/2,
+ * February 2025, or a bare year which is read as December).
+ */
+export const parseDataCutoff = (value: unknown): MonthStamp | null => {
+  if (typeof value !== "string" || !value.trim()) {
+    return null;
+  }
+  const text = value.trim();
+  const numeric = text.match(/((?:19|20)\d{2})\s*(?:年|[-/.])\s*(\d{1,2})/);
+  if (numeric && isMonth(Number(numeric[2]))) {
+    return { year: Number(numeric[1]), month: Number(numeric[2]) };
+  }
+  const english = text.match(/\b([a-z]{3})[a-z]*\.?\s+((?:19|20)\d{2})/i);
+  if (english) {
+    const month = EN_MONTHS.indexOf(english[1].toLowerCase()) + 1;
+    if (month > 0) {
+      return { year: Number(english[2]), month };
+    }
+  }
+  const yearOnly = text.match(/((?:19|20)\d{2})/);
+  if (yearOnly) {
+    return { year: Number(yearOnly[1]), month: 12 };
+  }
+  return null;
+};
+
+/**
+ * Resolves a phase `start_year` / `end_year` label to a month. Year-only
+ * labels cover the whole year, so a start resolves to January and an end to
+ * December. Non-calendar labels (第3季, Episode 4) return null.
+ */
+export const resolvePhaseBoundary = (
+  label: unknown,
+  edge: "start" | "end",
+): MonthStamp | null => {
+  if (typeof label === "number" && Number.isInteger(label)) {
+    return { year: label, month: edge === "start" ? 1 : 12 };
+  }
+  if (typeof label !== "string") {
+    return null;
+  }
+  const text = label.trim();
+  const quarter = text.match(/((?:19|20)\d{2})\s*[Qq]([1-4])/);
+  if (quarter) {
+    const index = Number(quarter[2]);
+    return {
+      year: Number(quarter[1]),
+      month: edge === "start" ? index * 3 - 2 : index * 3,
+    };
+  }
+  const month = text.match(/((?:19|20)\d{2})\s*(?:年|[-/.])\s*(\d{1,2})(?!\d)/);
+  if (month && isMonth(Number(month[2]))) {
+    return { year: Number(month[1]), month: Number(month[2]) };
+  }
+  const years = text.match(/(?:19|20)\d{2}/g);
+  if (years?.length) {
+    const year = Number(edge === "start" ? years[0] : years[years.length - 1]);
+    return { year, month: edge === "start" ? 1 : 12 };
+  }
+  return null;
+};
+
+export type ZoneReconciliation = {
+  payload: Draft;
+  cutoff: MonthStamp | null;
+  relabelled: string[];
+  issues: ValidationIssue[];
+};
+
+/**
+ * Checks every phase against `data_cutoff`. A phase that runs past the cutoff
+ * can never be `reality`; depending on the policy it is either relabelled as
+ * `projection` or reported so the model can repair it. Phases before the cutoff
+ * may still be marked as projection when the model is unsure, so they are
+ * left alone.
+ */
+export const reconcileZones = (
+  payload: Draft,
+  options: { policy: ZonePolicy; canRepair: boolean; locale: Locale },
+): ZoneReconciliation => {
+  const t = getIssueMessages(options.locale);
+  const cutoff = parseDataCutoff(payload.data_cutoff);
+  const shouldReport = options.policy === "reject" && options.canRepair;
+  if (!cutoff) {
+    return {
+      payload,
+      cutoff: null,
+      relabelled: [],
+      issues: shouldReport
+        ? [{ path: "data_cutoff", message: t.cutoffUnparseable }]
+        : [],
+    };
+  }
+
+  const cutoffIndex = toMonthIndex(cutoff);
+  const relabelled: string[] = [];
+  const issues: ValidationIssue[] = [];
+
+  const reconcilePhases = (phases: unknown, basePath: string) => {
+    if (!Array.isArray(phases)) {
+      return phases;
+    }
+    return phases.map((phase, index) => {
+      if (!isRecord(phase)) {
+        return phase;
+      }
+      const end = resolvePhaseBoundary(phase.end_year, "end");
+      const pastCutoff = end !== null && toMonthIndex(end) > cutoffIndex;
+      if (!pastCutoff || phase.zone === PROJECTION_ZONE) {
+        return phase.zone ? phase : { ...phase, zone: REALITY_ZONE };
+      }
+      const path = `${basePath}[${index}].zone`;
+      if (shouldReport) {
+        issues.push({
+          path,
+          message: t.pastCutoff(formatMonthStamp(end), formatMonthStamp(cutoff), PROJECTION_ZONE),
+        });
+        return phase;
+      }
+      relabelled.push(path);
+      return { ...phase, zone: PROJECTION_ZONE };
+    });
+  };
+
+  const phases = reconcilePhases(payload.phases, "phases");
+  const series = Array.isArray(payload.series)
+    ? payload.series.map((line, index) =>
+        isRecord(line)
+          ? { ...line, phases: reconcilePhases(line.phases, `series[${index}].phases`) }
+          : line,
+      )
+    : payload.series;
+
+  return {
+    payload: { ...payload, phases, ...(series ? { series } : {}) },
+    cutoff,
+    relabelled,
+    issues,
+  };
+};
@@ -0,0 +1,178 @@
+import type { Locale } from "../i18n";
+import { getIssueMessages } from "./issues";
+import { rankSeries, readComparisonSeries, SeriesRankEntry } from "./series";
+import { ValidationIssue } from "./validation";
+
+export type DominanceStrategy = "swap" | "repair";
+
+type Draft = Record<string, unknown>;
+
+/**
+ * Bare "wins" / "leads" are left out: they read as everyday English ("the
+ * debut leads to a spike"), so only comparative phrasings count.
+ */
+const DOMINANCE_WORDS =
+  /(主导|胜出|更强|占优|占上风|压制|领跑|终局胜出|赢家|\bdominat\w*|\bprevail\w*|\boutperform\w*|\bstronger\b|\bwinner\b|\bw[io]ns? (?:out|over|against|in the end)\b|\b(?:in|takes?|took|holds?|held|keeps?|kept) the lead\b|\bcomes? out (?:ahead|on top)\b|\bupper hand\b)/i;
+const SENTENCE_BREAK = /[。！？!?\n]+|\.\s+/;
+
+const isRecord = (value: unknown): value is Draft =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * Swaps the main (red) line with comparison line `line` (1 = `series[0]`):
+ * subjects, metrics, phases and the matching axis descriptions.
+ */
+export const swapSeries = (payload: Draft, line = 1): Draft => {
+  const comparisons = readComparisonSeries(payload);
+  const other = comparisons[line - 1];
+  if (!other) {
+    return payload;
+  }
+  const notes = isRecord(payload.chart_notes) ? payload.chart_notes : undefined;
+  const dualAxis = line === 1 && Boolean(notes?.secondary_axis);
+  const otherAxis = other.axis ?? (dualAxis ? notes?.secondary_axis : undefined);
+  const series = [...comparisons];
+  series[line - 1] = {
+    ...other,
+    subject: payload.subject,
+    metric: payload.metric,
+    phases: payload.phases,
+    axis: otherAxis ? notes?.primary_axis : undefined,
+  };
+  return {
+    ...payload,
+    subject: other.subject,
+    metric: other.metric,
+    phases: other.phases,
+    series,
+    ...(notes
+      ? {
+          chart_notes: {
+            ...notes,
+            primary_axis: otherAxis ?? notes.primary_axis,
+            ...(dualAxis ? { secondary_axis: notes.primary_axis } : {}),
+          },
+        }
+      : {}),
+  };
+};
+
+const collectNarrative = (payload: Draft): [string, string][] => {
+  const entries: [string, string][] = [];
+  const push = (path: string, value: unknown) => {
+    if (typeof value === "string" && value.trim()) {
+      entries.push([path, value]);
+    }
+  };
+  push("overall_analysis", payload.overall_analysis);
+  push("relation_summary", payload.relation_summary);
+  push("prediction_commentary", payload.prediction_commentary);
+  if (isRecord(payload.analysis_modules)) {
+    for (const [key, value] of Object.entries(payload.analysis_modules)) {
+      push(`analysis_modules.${key}`, value);
+    }
+  }
+  return entries;
+};
+
+/**
+ * Flags sentences that credit a line other than the final leader with words
+ * like "主导 / 胜出" (or "dominates / stronger" in English output) while
+ * naming no other subject. Sentences that compare two trailing lines with
+ * each other are left alone.
+ */
+export const findContradictingClaims = (
+  payload: Draft,
+  locale: Locale,
+  ranking: SeriesRankEntry[] | null = rankSeries(payload),
+): ValidationIssue[] => {
+  if (!ranking) {
+    return [];
+  }
+  const subjects = ranking.filter((entry) => entry.subject.trim());
+  const issues: ValidationIssue[] = [];
+  for (const [path, text] of collectNarrative(payload)) {
+    let offending: { sentence: string; entry: SeriesRankEntry } | null = null;
+    for (const sentence of text.split(SENTENCE_BREAK).map((part) => part.trim())) {
+      if (!DOMINANCE_WORDS.test(sentence)) {
+        continue;
+      }
+      const mentioned = subjects.filter((entry) => sentence.includes(entry.subject));
+      if (mentioned.length === 1 && mentioned[0].rank > 1) {
+        offending = { sentence, entry: mentioned[0] };
+        break;
+      }
+    }
+    if (offending) {
+      issues.push({
+        path,
+        message: getIssueMessages(locale).contradictingClaim(
+          offending.entry.rank,
+          offending.entry.subject,
+          offending.sentence,
+        ),
+      });
+    }
+  }
+  return issues;
+};
+
+export type DominanceOutcome = {
+  payload: Draft;
+  swapped: boolean;
+  issues: ValidationIssue[];
+  /** Every line ranked by final close, or null for a single-line chart. */
+  ranking: SeriesRankEntry[] | null;
+};
+
+const describeLine = (line: number) => (line === 0 ? "phases" : `series[${line - 1}].phases`);
+
+/**
+ * Applies the「强势锁定」rule, generalised to any number of lines: the red
+ * main line must finish first in the final-phase ranking. With the `swap`
+ * strategy (or once repairs are exhausted) the leader is swapped into the
+ * main slot; with `repair` the violation is returned as an issue for the
+ * model to fix. Narrative contradictions are always returned as issues.
+ */
+export const enforceDominance = (
+  payload: Draft,
+  options: { strategy: DominanceStrategy; canRepair: boolean; locale: Locale },
+): DominanceOutcome => {
+  const ranking = rankSeries(payload);
+  const leader = ranking?.[0];
+  if (!ranking || !leader || leader.line === 0) {
+    return {
+      payload,
+      swapped: false,
+      issues: findContradictingClaims(payload, options.locale, ranking),
+      ranking,
+    };
+  }
+  if (options.strategy === "repair" && options.canRepair) {
+    const main = ranking.find((entry) => entry.line === 0);
+    return {
+      payload,
+      swapped: false,
+      issues: [
+        {
+          path: describeLine(leader.line),
+          message: getIssueMessages(options.locale).leaderNotMain(
+            leader.subject,
+            Math.round(leader.final_score),
+            Math.round(main?.final_score ?? 0),
+          ),
+        },
+        ...findContradictingClaims(payload, options.locale, ranking),
+      ],
+      ranking,
+    };
+  }
+  const swapped = swapSeries(payload, leader.line);
+  const reranked = rankSeries(swapped);
+  return {
+    payload: swapped,
+    swapped: true,
+    issues: findContradictingClaims(swapped, options.locale, reranked),
+    ranking: reranked,
+  };
+};
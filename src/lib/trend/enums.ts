@@ -0,0 +1,125 @@
+export const TREND_ZONES = ["reality", "projection"] as const;
+export type TrendZone = (typeof TREND_ZONES)[number];
+
+export const EVENT_IMPACTS = ["push", "pullback", "volatile"] as const;
+export type EventImpact = (typeof EVENT_IMPACTS)[number];
+
+type Draft = Record<string, unknown>;
+
+/**
+ * Labels the model (or an older cached result) may use for each enum value.
+ * Matching is case-insensitive and ignores brackets such as【推演区间】.
+ */
+const ZONE_ALIASES: Record<TrendZone, string[]> = {
+  reality: ["reality", "real", "actual", "fact", "现实区间", "现实", "事实区间"],
+  projection: [
+    "projection",
+    "projected",
+    "prediction",
+    "forecast",
+    "推演区间",
+    "推演",
+    "预测区间",
+    "预测",
+  ],
+};
+
+const IMPACT_ALIASES: Record<EventImpact, string[]> = {
+  push: ["push", "up", "rise", "positive", "boost", "推动", "上涨", "拉升", "利好"],
+  pullback: ["pullback", "down", "decline", "negative", "drop", "回撤", "下跌", "回落", "利空"],
+  volatile: ["volatile", "volatility", "mixed", "neutral", "swing", "波动", "震荡"],
+};
+
+const normalizeAlias = <T extends string>(
+  aliases: Record<T, string[]>,
+  value: unknown,
+): T | null => {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const key = value.replace(/[【】\[\]「」]/g, "").trim().toLowerCase();
+  for (const [canonical, labels] of Object.entries(aliases) as [T, string[]][]) {
+    if (labels.includes(key)) {
+      return canonical;
+    }
+  }
+  return null;
+};
+
+export const normalizeZone = (value: unknown) => normalizeAlias(ZONE_ALIASES, value);
+
+export const normalizeImpact = (value: unknown) => normalizeAlias(IMPACT_ALIASES, value);
+
+/**
+ * `source_refs` as reference numbers: `"参考2"`, `"[2]"` and `"2"` become
+ * `2`, duplicates are dropped and a bare number is wrapped in a list.
+ * Entries without a number stay as they are for validation to report.
+ */
+export const normalizeSourceRefs = (value: unknown) => {
+  if (value === undefined || value === null) {
+    return value;
+  }
+  const entries = Array.isArray(value) ? value : [value];
+  const refs = entries.map((entry) => {
+    const digits = typeof entry === "string" ? entry.match(/\d+/)?.[0] : undefined;
+    return digits ? Number(digits) : entry;
+  });
+  return refs.filter((entry, index) => refs.indexOf(entry) === index);
+};
+
+const isRecord = (value: unknown): value is Draft =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const normalizePhase = (phase: unknown) => {
+  if (!isRecord(phase)) {
+    return phase;
+  }
+  const zone = normalizeZone(phase.zone);
+  const events = Array.isArray(phase.key_events)
+    ? phase.key_events.map((event) => {
+        if (!isRecord(event)) {
+          return event;
+        }
+        const impact = normalizeImpact(event.impact);
+        const sourceRefs = normalizeSourceRefs(event.source_refs);
+        return {
+          ...event,
+          ...(impact ? { impact } : {}),
+          ...(sourceRefs !== undefined ? { source_refs: sourceRefs } : {}),
+        };
+      })
+    : phase.key_events;
+  return {
+    ...phase,
+    ...(zone ? { zone } : {}),
+    ...(events !== undefined ? { key_events: events } : {}),
+  };
+};
+
+/**
+ * Rewrites localized zone / impact labels to their enum values and event
+ * `source_refs` to plain reference numbers. Unknown labels are left
+ * untouched so validation can report them.
+ */
+export const normalizeTrendEnums = (payload: Draft): Draft => {
+  if (!isRecord(payload)) {
+    return payload;
+  }
+  const phases = Array.isArray(payload.phases)
+    ? payload.phases.map(normalizePhase)
+    : payload.phases;
+  const normalizeLine = (line: unknown) =>
+    isRecord(line) && Array.isArray(line.phases)
+      ? { ...line, phases: line.phases.map(normalizePhase) }
+      : line;
+  const secondary = normalizeLine(payload.secondary);
+  const series = Array.isArray(payload.series)
+    ? payload.series.map(normalizeLine)
+    : payload.series;
+  return {
+    ...payload,
+    phases,
+    ...(secondary !== undefined ? { secondary } : {}),
+    ...(series !== undefined ? { series } : {}),
+  };
+};
@@ -0,0 +1,132 @@
+import type { Locale } from "../i18n";
+
+/**
+ * Validation issue wording, in the locale of the prompt they are sent back
+ * to. Paths and field names stay in English in both catalogs because they
+ * address the JSON the model wrote.
+ */
+const zhCN = {
+  notObject: "AI 未返回有效的 JSON 对象。",
+  missingField: (key: string) => `缺少 ${key} 字段。`,
+  mustBeString: (key: string) => `${key} 必须是字符串。`,
+  mustBeArray: (key: string) => `${key} 必须是数组。`,
+  mustBeObject: (key: string) => `${key} 必须是对象。`,
+  mustBeNumber: (key: string) => `${key} 必须是有效数字。`,
+  oneOf: (key: string, options: readonly string[]) => `${key} 只能是 ${options.join(" / ")}。`,
+  sourceDigestMissing: "未基于参考资料输出 source_digest（至少 20 字）。",
+
+  sourceRefsType: "source_refs 必须是参考资料编号数组。",
+  sourceRefsUnexpected: "本次没有参考资料，请删除 source_refs。",
+  sourceRefUnknown: (ref: string, count: number) =>
+    `引用的参考编号 ${ref} 不存在，只能是 1-${count}。`,
+
+  eventsMissing: "每个阶段至少需要 1 条 key_events。",
+  eventNotObject: "事件必须是对象。",
+  eventTimeMissing: "缺少事件时间。",
+  eventDescriptionMissing: "缺少事件描述。",
+
+  phaseNotObject: "阶段必须是对象。",
+  phaseStartMissing: "缺少阶段起点。",
+  phaseEndMissing: "缺少阶段终点。",
+  phaseLabelMissing: "缺少阶段说明。",
+  phasesMissing: "缺少 phases 数组。",
+  phaseCount: (count: number, min: number, max: number) =>
+    `阶段数量为 ${count}，需在 ${min}-${max} 段之间。`,
+  lowAboveHigh: (low: number, high: number) => `low (${low}) 不能高于 high (${high})。`,
+  outsideRange: (key: string, value: number) => `${key} (${value}) 必须位于 low-high 区间内。`,
+  outOfBounds: (key: string, value: number) => `${key} (${value}) 超出 0-100 范围。`,
+
+  axisNotObject: "轴说明必须是对象。",
+  axisLabelMissing: "缺少轴名称。",
+  comparisonNotObject: "对比线必须是对象。",
+  comparisonSubjectMissing: "缺少对比线主体名称。",
+  comparisonMetricMissing: "缺少对比线指标。",
+  comparisonPhaseCount: (count: number, main: number) =>
+    `对比线阶段数 (${count}) 与主线 (${main}) 不一致。`,
+  comparisonMisaligned: (label: string, main: string) =>
+    `时间标签 (${label}) 与主线 (${main}) 未对齐。`,
+  seriesCount: (count: number, min: number, max: number) =>
+    `对比线有 ${count} 条，连同主线需在 ${min}-${max} 条之间。`,
+  secondaryAxisMissing: "dual_axis 模式必须提供 secondary_axis。",
+  secondaryAxisUnexpected: "提供了 secondary_axis 时 mode 应为 dual_axis。",
+  dualAxisTooMany: "dual_axis 只适用于两条线的对比，多条线请使用 single_axis。",
+
+  cutoffUnparseable: "data_cutoff 无法解析，格式必须为「现实数据截至：YYYY年MM月」。",
+  pastCutoff: (end: string, cutoff: string, zone: string) =>
+    `该阶段截至 ${end}，晚于 data_cutoff（${cutoff}），zone 只能是 ${zone}。`,
+  outsideSpan: (span: string) => `子阶段超出了所放大阶段的时间范围（${span}），请只在该范围内细分。`,
+  datasetPhaseCount: (expected: number, actual: number) =>
+    `phases 需要恰好 ${expected} 段，与上传数据的分段一一对应（当前 ${actual} 段）。`,
+  leaderNotMain: (subject: string, score: number, main: number) =>
+    `「${subject}」最终收盘 ${score} 高于主线（红）${main}；主线必须是终局排名第一的一方，请把它与主线互换或修正数值。`,
+  contradictingClaim: (rank: number, subject: string, sentence: string) =>
+    `文字将最终排名第 ${rank} 的「${subject}」描述为更强一方：「${sentence}」`,
+};
+
+export type IssueMessages = typeof zhCN;
+
+const en: IssueMessages = {
+  notObject: "The AI did not return a valid JSON object.",
+  missingField: (key) => `Missing the ${key} field.`,
+  mustBeString: (key) => `${key} must be a string.`,
+  mustBeArray: (key) => `${key} must be an array.`,
+  mustBeObject: (key) => `${key} must be an object.`,
+  mustBeNumber: (key) => `${key} must be a valid number.`,
+  oneOf: (key, options) => `${key} must be one of ${options.join(" / ")}.`,
+  sourceDigestMissing: "Missing source_digest based on the references (at least 20 characters).",
+
+  sourceRefsType: "source_refs must be an array of reference numbers.",
+  sourceRefsUnexpected: "No references were provided this time; remove source_refs.",
+  sourceRefUnknown: (ref, count) =>
+    `Reference number ${ref} does not exist; it must be between 1 and ${count}.`,
+
+  eventsMissing: "Every phase needs at least 1 entry in key_events.",
+  eventNotObject: "Each event must be an object.",
+  eventTimeMissing: "Missing the event time.",
+  eventDescriptionMissing: "Missing the event description.",
+
+  phaseNotObject: "Each phase must be an object.",
+  phaseStartMissing: "Missing the phase start.",
+  phaseEndMissing: "Missing the phase end.",
+  phaseLabelMissing: "Missing the phase label.",
+  phasesMissing: "Missing the phases array.",
+  phaseCount: (count, min, max) => `Found ${count} phases; there must be ${min}-${max}.`,
+  lowAboveHigh: (low, high) => `low (${low}) cannot be above high (${high}).`,
+  outsideRange: (key, value) => `${key} (${value}) must lie within the low-high range.`,
+  outOfBounds: (key, value) => `${key} (${value}) is outside the 0-100 range.`,
+
+  axisNotObject: "The axis description must be an object.",
+  axisLabelMissing: "Missing the axis label.",
+  comparisonNotObject: "Each comparison line must be an object.",
+  comparisonSubjectMissing: "Missing the comparison line's subject.",
+  comparisonMetricMissing: "Missing the comparison line's metric.",
+  comparisonPhaseCount: (count, main) =>
+    `The comparison line has ${count} phases but the main line has ${main}.`,
+  comparisonMisaligned: (label, main) =>
+    `Time label (${label}) is not aligned with the main line (${main}).`,
+  seriesCount: (count, min, max) =>
+    `Found ${count} comparison lines; including the main line there must be ${min}-${max}.`,
+  secondaryAxisMissing: "dual_axis mode requires secondary_axis.",
+  secondaryAxisUnexpected: "mode should be dual_axis when secondary_axis is provided.",
+  dualAxisTooMany: "dual_axis only fits a two-line comparison; use single_axis for more lines.",
+
+  cutoffUnparseable:
+    "data_cutoff could not be parsed; it must read \"Real data as of: YYYY-MM\".",
+  pastCutoff: (end, cutoff, zone) =>
+    `This phase ends in ${end}, after data_cutoff (${cutoff}); its zone must be ${zone}.`,
+  outsideSpan: (span) =>
+    `The sub-phase falls outside the zoomed phase (${span}); subdivide only within that range.`,
+  datasetPhaseCount: (expected, actual) =>
+    `phases must have exactly ${expected} entries, one per segment of the uploaded data (currently ${actual}).`,
+  leaderNotMain: (subject, score, main) =>
+    `"${subject}" closes at ${score}, above the main (red) line at ${main}; the main line must finish first, so swap it with the main line or fix the values.`,
+  contradictingClaim: (rank, subject, sentence) =>
+    `The text describes "${subject}", ranked #${rank} at the end, as the stronger side: "${sentence}"`,
+};
+
+const CATALOG: Record<Locale, IssueMessages> = {
+  "zh-CN": zhCN,
+  en,
+};
+
+export const getIssueMessages = (locale: Locale) => CATALOG[locale];
@@ -0,0 +1,263 @@
+import type { SegmentedDataset } from "../dataset";
+import type { Locale } from "../i18n";
+import {
+  describeDataCutoff,
+  formatMonthStamp,
+  resolvePhaseBoundary,
+  toMonthIndex,
+} from "./cutoff";
+import { getIssueMessages } from "./issues";
+import { ValidationIssue } from "./validation";
+
+/** `primary` is the main (red) line; a number indexes into `series`. */
+export type PhaseSeries = "primary" | number;
+
+/** One phase addressed by line and position, e.g. the third red-line phase. */
+export type PhaseFocus = {
+  series: PhaseSeries;
+  index: number;
+};
+
+type Draft = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Draft =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const readSeriesPhases = (payload: Draft, series: PhaseSeries) => {
+  const phases =
+    series === "primary"
+      ? payload.phases
+      : Array.isArray(payload.series) && isRecord(payload.series[series])
+        ? payload.series[series].phases
+        : undefined;
+  return Array.isArray(phases) ? phases : null;
+};
+
+const writeSeriesPhases = (payload: Draft, series: PhaseSeries, phases: unknown[]) => {
+  if (series === "primary") {
+    return { ...payload, phases };
+  }
+  const lines = [...(payload.series as Draft[])];
+  lines[series] = { ...lines[series], phases };
+  return { ...payload, series: lines };
+};
+
+export const phasePath = ({ series, index }: PhaseFocus) =>
+  `${series === "primary" ? "phases" : `series[${series}].phases`}[${index}]`;
+
+export const getFocusedPhase = (payload: Draft, focus: PhaseFocus) => {
+  const phase = readSeriesPhases(payload, focus.series)?.[focus.index];
+  return isRecord(phase) ? phase : null;
+};
+
+/** Moves `open` or `close` and widens `low` / `high` so the value stays inside. */
+const withPrice = (phase: Draft, key: "open" | "close", value: unknown) => {
+  const price = Number(value);
+  if (!Number.isFinite(price)) {
+    return phase;
+  }
+  const high = Number(phase.high);
+  const low = Number(phase.low);
+  return {
+    ...phase,
+    [key]: price,
+    ...(Number.isFinite(high) && price > high ? { high: price } : {}),
+    ...(Number.isFinite(low) && price < low ? { low: price } : {}),
+  };
+};
+
+/**
+ * Takes only the focused phase from `candidate` and puts it back into
+ * `current`, so a「重新生成此阶段」request cannot drift the rest of the chart.
+ * The phase keeps its original time labels (comparison lines must stay
+ * aligned), opens at the previous close, and the next phase now opens at its
+ * close. Returns null when the candidate does not contain that phase.
+ */
+export const spliceFocusedPhase = (
+  current: Draft,
+  candidate: Draft,
+  focus: PhaseFocus,
+): Draft | null => {
+  const original = readSeriesPhases(current, focus.series);
+  const replacement = getFocusedPhase(candidate, focus);
+  const previous = original?.[focus.index];
+  if (!original || !replacement || !isRecord(previous)) {
+    return null;
+  }
+  const phases = [...original];
+  const before = phases[focus.index - 1];
+  let phase: Draft = {
+    ...replacement,
+    start_year: previous.start_year,
+    end_year: previous.end_year,
+  };
+  if (isRecord(before)) {
+    phase = withPrice(phase, "open", before.close);
+  }
+  phases[focus.index] = phase;
+  const after = phases[focus.index + 1];
+  if (isRecord(after)) {
+    phases[focus.index + 1] = withPrice(after, "open", phase.close);
+  }
+  return writeSeriesPhases(current, focus.series, phases);
+};
+
+/**
+ * Pins a drill-down sub-chart to its parent phase: the first sub-phase opens
+ * at the parent's open and the last one closes at the parent's close, so the
+ * zoomed view joins up with the chart it came from.
+ */
+export const anchorSubPhases = (payload: Draft, parent: Draft): Draft => {
+  const phases = readSeriesPhases(payload, "primary");
+  if (!phases?.length) {
+    return payload;
+  }
+  const anchored = [...phases];
+  const last = anchored.length - 1;
+  if (isRecord(anchored[0])) {
+    anchored[0] = withPrice(anchored[0], "open", parent.open);
+  }
+  if (isRecord(anchored[last])) {
+    anchored[last] = withPrice(anchored[last], "close", parent.close);
+  }
+  return writeSeriesPhases(payload, "primary", anchored);
+};
+
+/** Reports sub-phases whose calendar span falls outside the parent phase. */
+export const findSpanIssues = (
+  payload: Draft,
+  parent: Draft,
+  locale: Locale,
+): ValidationIssue[] => {
+  const start = resolvePhaseBoundary(parent.start_year, "start");
+  const end = resolvePhaseBoundary(parent.end_year, "end");
+  const phases = readSeriesPhases(payload, "primary");
+  if (!start || !end || !phases) {
+    return [];
+  }
+  const span = `${formatMonthStamp(start)} – ${formatMonthStamp(end)}`;
+  const issues: ValidationIssue[] = [];
+  phases.forEach((phase, index) => {
+    if (!isRecord(phase)) {
+      return;
+    }
+    const phaseStart = resolvePhaseBoundary(phase.start_year, "start");
+    const phaseEnd = resolvePhaseBoundary(phase.end_year, "end");
+    if (
+      (phaseStart && toMonthIndex(phaseStart) < toMonthIndex(start)) ||
+      (phaseEnd && toMonthIndex(phaseEnd) > toMonthIndex(end))
+    ) {
+      issues.push({
+        path: `phases[${index}]`,
+        message: getIssueMessages(locale).outsideSpan(span),
+      });
+    }
+  });
+  return issues;
+};
+
+/**
+ * Overwrites the model's time labels and prices with the segments cut from
+ * an uploaded series, keeping only its labels, events and notes. The chart
+ * becomes a single objective line in real units; comparison lines, which
+ * would be invented numbers, are dropped. `data_cutoff` moves to the end of
+ * the series, so zone reconciliation never turns measured data into
+ * projection.
+ */
+export const pinDatasetPhases = (
+  payload: Draft,
+  dataset: Pick<SegmentedDataset, "name" | "metric" | "unit" | "segments">,
+  locale: Locale,
+): Draft => {
+  const phases = readSeriesPhases(payload, "primary") ?? [];
+  const pinned = dataset.segments.map((segment, index) => {
+    const phase = isRecord(phases[index]) ? phases[index] : {};
+    return {
+      ...phase,
+      start_year: segment.start_year,
+      end_year: segment.end_year,
+      open: segment.open,
+      high: segment.high,
+      low: segment.low,
+      close: segment.close,
+      zone: "reality",
+    };
+  });
+  const lastEnd = resolvePhaseBoundary(pinned[pinned.length - 1]?.end_year, "end");
+  const notes = isRecord(payload.chart_notes) ? payload.chart_notes : {};
+  const axis = isRecord(notes.primary_axis) ? notes.primary_axis : {};
+  const chartNotes = Object.fromEntries(
+    Object.entries(notes).filter(([key]) => key !== "secondary_axis"),
+  );
+  return {
+    ...Object.fromEntries(
+      Object.entries(payload).filter(([key]) => key !== "series" && key !== "secondary"),
+    ),
+    phases: pinned,
+    ...(lastEnd ? { data_cutoff: describeDataCutoff(lastEnd, locale) } : {}),
+    chart_notes: {
+      ...chartNotes,
+      mode: "single_axis",
+      primary_axis: {
+        ...axis,
+        label: dataset.metric ?? axis.label ?? dataset.name,
+        ...(dataset.unit ? { unit: dataset.unit } : {}),
+        kind: "objective",
+      },
+    },
+  };
+};
+
+/**
+ * Puts the uploaded series' values back on one primary phase after it was
+ * regenerated, so a redo only rewrites its label, events and notes. Other
+ * lines, or a chart whose phases no longer match the segments, are left as is.
+ */
+export const pinDatasetSegment = (
+  payload: Draft,
+  dataset: Pick<SegmentedDataset, "segments">,
+  focus: PhaseFocus,
+): Draft => {
+  const phases = readSeriesPhases(payload, "primary");
+  const segment = dataset.segments[focus.index];
+  const phase = phases?.[focus.index];
+  if (
+    focus.series !== "primary" ||
+    !phases ||
+    phases.length !== dataset.segments.length ||
+    !segment ||
+    !isRecord(phase)
+  ) {
+    return payload;
+  }
+  const pinned = [...phases];
+  pinned[focus.index] = {
+    ...phase,
+    start_year: segment.start_year,
+    end_year: segment.end_year,
+    open: segment.open,
+    high: segment.high,
+    low: segment.low,
+    close: segment.close,
+    zone: "reality",
+  };
+  return writeSeriesPhases(payload, "primary", pinned);
+};
+
+/** Reports a phase count that does not match the uploaded series' segments. */
+export const findDatasetIssues = (
+  payload: Draft,
+  dataset: Pick<SegmentedDataset, "segments">,
+  locale: Locale,
+): ValidationIssue[] => {
+  const phases = readSeriesPhases(payload, "primary");
+  const expected = dataset.segments.length;
+  return phases?.length === expected
+    ? []
+    : [
+        {
+          path: "phases",
+          message: getIssueMessages(locale).datasetPhaseCount(expected, phases?.length ?? 0),
+        },
+      ];
+};
@@ -0,0 +1,123 @@
+export const MIN_SERIES = 2;
+export const MAX_SERIES = 6;
+
+type Draft = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Draft =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * Comparison lines besides the main one. A payload either carries `series`
+ * (the current shape, 1-5 entries so the chart shows 2-6 subjects) or the
+ * legacy single `secondary` object, which is read as a one-entry list.
+ */
+export const readComparisonSeries = (payload: Draft): Draft[] => {
+  if (Array.isArray(payload.series)) {
+    return payload.series.filter(isRecord);
+  }
+  return isRecord(payload.secondary) ? [payload.secondary] : [];
+};
+
+/**
+ * Rewrites a legacy `secondary` payload into `series: [secondary]`. When the
+ * dual-axis description exists it travels with the line as `series[0].axis`.
+ * Payloads that already use `series` only lose a stray `secondary`.
+ */
+export const normalizeSeriesLayout = (payload: Draft): Draft => {
+  if (!isRecord(payload) || !("secondary" in payload)) {
+    return payload;
+  }
+  const { secondary, ...rest } = payload;
+  if (Array.isArray(rest.series) || !isRecord(secondary)) {
+    return rest;
+  }
+  const notes = isRecord(rest.chart_notes) ? rest.chart_notes : undefined;
+  const axis = secondary.axis ?? notes?.secondary_axis;
+  return {
+    ...rest,
+    series: [{ ...secondary, ...(axis ? { axis } : {}) }],
+  };
+};
+
+export type SeriesRankEntry = {
+  /** 0 is the main line, n is `series[n - 1]`. */
+  line: number;
+  subject: string;
+  final_close: number;
+  /** The final close on a 0-100 scale, the value lines are ranked by. */
+  final_score: number;
+  rank: number;
+};
+
+type PhaseDraft = {
+  high?: unknown;
+  low?: unknown;
+  close?: unknown;
+};
+
+const asPhases = (value: unknown): PhaseDraft[] =>
+  Array.isArray(value) ? (value.filter(isRecord) as PhaseDraft[]) : [];
+
+/**
+ * Final close placed on a 0-100 scale. Subjective lines already are; an
+ * objective line (real units) is scaled against its own low/high range so
+ * lines on different axes compare where each one finishes visually.
+ */
+const finalScore = (phases: PhaseDraft[], objective: boolean) => {
+  const last = phases[phases.length - 1];
+  const close = Number(last?.close);
+  if (!Number.isFinite(close)) {
+    return null;
+  }
+  if (!objective) {
+    return close;
+  }
+  const lows = phases.map((phase) => Number(phase.low)).filter(Number.isFinite);
+  const highs = phases.map((phase) => Number(phase.high)).filter(Number.isFinite);
+  const min = Math.min(...lows);
+  const max = Math.max(...highs);
+  if (!Number.isFinite(min) || !Number.isFinite(max) || max === min) {
+    return 50;
+  }
+  return ((close - min) / (max - min)) * 100;
+};
+
+const axisKind = (payload: Draft, line: number) => {
+  const notes = isRecord(payload.chart_notes) ? payload.chart_notes : undefined;
+  if (line === 0) {
+    return isRecord(notes?.primary_axis) ? notes.primary_axis.kind : undefined;
+  }
+  const series = readComparisonSeries(payload)[line - 1];
+  if (isRecord(series?.axis)) {
+    return series.axis.kind;
+  }
+  return line === 1 && isRecord(notes?.secondary_axis) ? notes.secondary_axis.kind : undefined;
+};
+
+/**
+ * Ranks every line by its final score, highest first. Returns null unless
+ * every line has a usable final close.
+ */
+export const rankSeries = (payload: Draft): SeriesRankEntry[] | null => {
+  const lines: Draft[] = [payload, ...readComparisonSeries(payload)];
+  if (lines.length < MIN_SERIES) {
+    return null;
+  }
+  const entries: Omit<SeriesRankEntry, "rank">[] = [];
+  for (const [line, series] of lines.entries()) {
+    const phases = asPhases(series.phases);
+    const score = finalScore(phases, axisKind(payload, line) === "objective");
+    if (score === null) {
+      return null;
+    }
+    entries.push({
+      line,
+      subject: typeof series.subject === "string" ? series.subject : "",
+      final_close: Number(phases[phases.length - 1]?.close),
+      final_score: Math.round(score * 100) / 100,
+    });
+  }
+  return entries
+    .sort((a, b) => b.final_score - a.final_score || a.line - b.line)
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+};
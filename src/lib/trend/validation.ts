@@ -0,0 +1,348 @@
+import { DEFAULT_LOCALE, Locale } from "../i18n";
+import { EVENT_IMPACTS, TREND_ZONES } from "./enums";
+import { getIssueMessages, IssueMessages } from "./issues";
+import { MAX_SERIES, MIN_SERIES } from "./series";
+
+export type ValidationIssue = {
+  /** Dotted path into the payload, e.g. `series[0].phases[2].close`. */
+  path: string;
+  message: string;
+};
+
+export type TrendValidationOptions = {
+  requireSourceDigest: boolean;
+  /** Number of `【参考N】` blocks the model was given; `source_refs` must cite 1..N. */
+  referenceCount?: number;
+  /** Language of the issue messages, matching the prompt they are sent back in. */
+  locale?: Locale;
+};
+
+type PhaseOptions = { bounded: boolean; referenceCount: number };
+
+const MIN_PHASES = 5;
+const MAX_PHASES = 10;
+const AXIS_MODES = ["single_axis", "dual_axis"];
+const AXIS_KINDS = ["subjective", "objective"];
+
+type Draft = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Draft =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+const isTimeLabel = (value: unknown) =>
+  (typeof value === "number" && Number.isFinite(value)) || isNonEmptyString(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const createCollector = (t: IssueMessages) => {
+  const issues: ValidationIssue[] = [];
+  const report = (path: string, message: string) => {
+    issues.push({ path, message });
+  };
+  return { issues, report, t };
+};
+
+type Collector = Omit<ReturnType<typeof createCollector>, "issues">;
+
+const validateSourceRefs = (
+  refs: unknown,
+  path: string,
+  referenceCount: number,
+  collector: Collector,
+) => {
+  const { report, t } = collector;
+  if (refs === undefined || refs === null) {
+    return;
+  }
+  if (!Array.isArray(refs)) {
+    report(path, t.sourceRefsType);
+    return;
+  }
+  if (refs.length && !referenceCount) {
+    report(path, t.sourceRefsUnexpected);
+    return;
+  }
+  refs.forEach((ref, index) => {
+    if (!Number.isInteger(ref) || (ref as number) < 1 || (ref as number) > referenceCount) {
+      report(`${path}[${index}]`, t.sourceRefUnknown(String(ref), referenceCount));
+    }
+  });
+};
+
+const validateEvents = (
+  events: unknown,
+  path: string,
+  collector: Collector,
+  referenceCount: number,
+) => {
+  const { report, t } = collector;
+  if (!Array.isArray(events) || events.length === 0) {
+    report(path, t.eventsMissing);
+    return;
+  }
+  events.forEach((event, index) => {
+    const eventPath = `${path}[${index}]`;
+    if (!isRecord(event)) {
+      report(eventPath, t.eventNotObject);
+      return;
+    }
+    if (!isNonEmptyString(event.time)) {
+      report(`${eventPath}.time`, t.eventTimeMissing);
+    }
+    if (!isNonEmptyString(event.description)) {
+      report(`${eventPath}.description`, t.eventDescriptionMissing);
+    }
+    if (
+      event.impact !== undefined &&
+      !(EVENT_IMPACTS as readonly unknown[]).includes(event.impact)
+    ) {
+      report(`${eventPath}.impact`, t.oneOf("impact", EVENT_IMPACTS));
+    }
+    validateSourceRefs(event.source_refs, `${eventPath}.source_refs`, referenceCount, collector);
+  });
+};
+
+const validatePhase = (
+  phase: unknown,
+  path: string,
+  collector: Collector,
+  options: PhaseOptions,
+) => {
+  const { report, t } = collector;
+  if (!isRecord(phase)) {
+    report(path, t.phaseNotObject);
+    return;
+  }
+  if (!isTimeLabel(phase.start_year)) {
+    report(`${path}.start_year`, t.phaseStartMissing);
+  }
+  if (!isTimeLabel(phase.end_year)) {
+    report(`${path}.end_year`, t.phaseEndMissing);
+  }
+  if (!isNonEmptyString(phase.label)) {
+    report(`${path}.label`, t.phaseLabelMissing);
+  }
+
+  const prices = ["open", "high", "low", "close"] as const;
+  const numeric = prices.every((key) => {
+    if (!isFiniteNumber(phase[key])) {
+      report(`${path}.${key}`, t.mustBeNumber(key));
+      return false;
+    }
+    return true;
+  });
+  if (numeric) {
+    const { open, high, low, close } = phase as Record<(typeof prices)[number], number>;
+    if (low > high) {
+      report(`${path}.low`, t.lowAboveHigh(low, high));
+    }
+    if (open < low || open > high) {
+      report(`${path}.open`, t.outsideRange("open", open));
+    }
+    if (close < low || close > high) {
+      report(`${path}.close`, t.outsideRange("close", close));
+    }
+    if (options.bounded) {
+      prices.forEach((key) => {
+        const value = phase[key] as number;
+        if (value < 0 || value > 100) {
+          report(`${path}.${key}`, t.outOfBounds(key, value));
+        }
+      });
+    }
+  }
+
+  if (phase.zone !== undefined && !(TREND_ZONES as readonly unknown[]).includes(phase.zone)) {
+    report(`${path}.zone`, t.oneOf("zone", TREND_ZONES));
+  }
+  if (phase.relation_note !== undefined && typeof phase.relation_note !== "string") {
+    report(`${path}.relation_note`, t.mustBeString("relation_note"));
+  }
+  validateEvents(phase.key_events, `${path}.key_events`, collector, options.referenceCount);
+};
+
+const validatePhaseList = (
+  phases: unknown,
+  path: string,
+  collector: Collector,
+  options: PhaseOptions,
+) => {
+  const { report, t } = collector;
+  if (!Array.isArray(phases)) {
+    report(path, t.phasesMissing);
+    return null;
+  }
+  if (phases.length < MIN_PHASES || phases.length > MAX_PHASES) {
+    report(path, t.phaseCount(phases.length, MIN_PHASES, MAX_PHASES));
+  }
+  phases.forEach((phase, index) => validatePhase(phase, `${path}[${index}]`, collector, options));
+  return phases;
+};
+
+const validateAxis = (axis: unknown, path: string, collector: Collector) => {
+  const { report, t } = collector;
+  if (!isRecord(axis)) {
+    report(path, t.axisNotObject);
+    return;
+  }
+  if (!isNonEmptyString(axis.label)) {
+    report(`${path}.label`, t.axisLabelMissing);
+  }
+  if (axis.kind !== undefined && !AXIS_KINDS.includes(axis.kind as string)) {
+    report(`${path}.kind`, t.oneOf("kind", AXIS_KINDS));
+  }
+};
+
+/** One entry of `series`: a comparison line aligned phase-by-phase with the main line. */
+const validateComparison = (
+  entry: unknown,
+  path: string,
+  mainPhases: unknown[] | null,
+  collector: Collector,
+  options: PhaseOptions,
+) => {
+  const { report, t } = collector;
+  if (!isRecord(entry)) {
+    report(path, t.comparisonNotObject);
+    return;
+  }
+  if (!isNonEmptyString(entry.subject)) {
+    report(`${path}.subject`, t.comparisonSubjectMissing);
+  }
+  if (!isNonEmptyString(entry.metric)) {
+    report(`${path}.metric`, t.comparisonMetricMissing);
+  }
+  if (entry.axis !== undefined && entry.axis !== null) {
+    validateAxis(entry.axis, `${path}.axis`, collector);
+  }
+  const phases = validatePhaseList(entry.phases, `${path}.phases`, collector, options);
+  if (!mainPhases || !phases) {
+    return;
+  }
+  if (phases.length !== mainPhases.length) {
+    report(`${path}.phases`, t.comparisonPhaseCount(phases.length, mainPhases.length));
+    return;
+  }
+  phases.forEach((phase, index) => {
+    const main = mainPhases[index];
+    if (!isRecord(phase) || !isRecord(main)) {
+      return;
+    }
+    (["start_year", "end_year"] as const).forEach((key) => {
+      if (String(phase[key]) !== String(main[key])) {
+        report(
+          `${path}.phases[${index}].${key}`,
+          t.comparisonMisaligned(String(phase[key]), String(main[key])),
+        );
+      }
+    });
+  });
+};
+
+const resolveAxisKind = (notes: unknown, key: "primary_axis" | "secondary_axis") => {
+  if (!isRecord(notes) || !isRecord(notes[key])) {
+    return undefined;
+  }
+  return notes[key].kind;
+};
+
+/**
+ * Checks the full TrendResponse shape the page renders and returns every
+ * problem found, addressed by path. An empty list means the payload is safe
+ * to hand to the chart.
+ */
+export const validateTrendPayload = (
+  payload: unknown,
+  options: TrendValidationOptions,
+): ValidationIssue[] => {
+  const collector = createCollector(getIssueMessages(options.locale ?? DEFAULT_LOCALE));
+  const { issues, report, t } = collector;
+  if (!isRecord(payload)) {
+    report("$", t.notObject);
+    return issues;
+  }
+
+  (["subject", "metric", "timeframe"] as const).forEach((key) => {
+    if (!isNonEmptyString(payload[key])) {
+      report(key, t.missingField(key));
+    }
+  });
+  if (payload.data_cutoff !== undefined && typeof payload.data_cutoff !== "string") {
+    report("data_cutoff", t.mustBeString("data_cutoff"));
+  }
+  if (options.requireSourceDigest) {
+    const digest = payload.source_digest;
+    if (typeof digest !== "string" || digest.trim().length < 20) {
+      report("source_digest", t.sourceDigestMissing);
+    }
+  }
+
+  const notes = payload.chart_notes;
+  const referenceCount = options.referenceCount ?? 0;
+  const mainPhases = validatePhaseList(payload.phases, "phases", collector, {
+    bounded: resolveAxisKind(notes, "primary_axis") !== "objective",
+    referenceCount,
+  });
+
+  const comparisons = payload.series;
+  if (comparisons !== undefined && comparisons !== null) {
+    if (!Array.isArray(comparisons)) {
+      report("series", t.mustBeArray("series"));
+    } else {
+      if (comparisons.length < MIN_SERIES - 1 || comparisons.length > MAX_SERIES - 1) {
+        report("series", t.seriesCount(comparisons.length, MIN_SERIES, MAX_SERIES));
+      }
+      comparisons.forEach((entry, index) =>
+        validateComparison(entry, `series[${index}]`, mainPhases, collector, {
+          bounded:
+            (isRecord(entry) && isRecord(entry.axis)
+              ? entry.axis.kind
+              : index === 0
+                ? resolveAxisKind(notes, "secondary_axis")
+                : undefined) !== "objective",
+          referenceCount,
+        }),
+      );
+    }
+  }
+
+  if (notes !== undefined) {
+    if (!isRecord(notes)) {
+      report("chart_notes", t.mustBeObject("chart_notes"));
+    } else {
+      if (!AXIS_MODES.includes(notes.mode as string)) {
+        report("chart_notes.mode", t.oneOf("mode", AXIS_MODES));
+      }
+      if (notes.primary_axis !== undefined) {
+        validateAxis(notes.primary_axis, "chart_notes.primary_axis", collector);
+      }
+      const hasSecondaryAxis =
+        notes.secondary_axis !== undefined && notes.secondary_axis !== null;
+      if (hasSecondaryAxis) {
+        validateAxis(notes.secondary_axis, "chart_notes.secondary_axis", collector);
+      }
+      if (notes.mode === "dual_axis" && !hasSecondaryAxis) {
+        report("chart_notes.secondary_axis", t.secondaryAxisMissing);
+      }
+      if (notes.mode === "single_axis" && hasSecondaryAxis) {
+        report("chart_notes.mode", t.secondaryAxisUnexpected);
+      }
+      if (
+        notes.mode === "dual_axis" &&
+        Array.isArray(comparisons) &&
+        comparisons.length > 1
+      ) {
+        report("chart_notes.mode", t.dualAxisTooMany);
+      }
+    }
+  }
+
+  return issues;
+};
+
+export const formatValidationIssues = (issues: ValidationIssue[]) =>
+  issues.map((issue) => `${issue.path}: ${issue.message}`);